@@ -1,4 +1,7 @@
 import { useState, useEffect } from "react";
+import { YoutubeApiService } from "./api/YoutubeApiService";
+import type { SubscriptionChannel } from "./api/YoutubeApiService";
+import type { ShelfPage } from "./content/pageLifecycle";
 
 const YOUTUBE_CATEGORIES = [
   "Film & Animation",
@@ -37,6 +40,18 @@ interface PlaylistFilterSortSettings {
     channels: string[];
     categories: string[]; // NEW
     keywords: string;
+    liveContent: "all" | "hide" | "only"; // live streams, upcoming streams and premieres
+    shorts: "include" | "exclude" | "only";
+    captionedOnly: boolean;
+    hdOnly: boolean; // the API has no 4K flag, HD is the best it reports
+    languages: string[]; // audio language codes, e.g. ["en", "es"]
+    includeTags: string[];
+    excludeTags: string[];
+    includeTopics: string[];
+    excludeTopics: string[];
+    addedWithin: "all" | "week" | "month" | "year";
+    hideWatched: boolean; // based on progress recorded on watch pages
+    showHidden: boolean; // include videos marked watched, dismissed or snoozed from a tile
   };
   sort: {
     by:
@@ -45,6 +60,8 @@ interface PlaylistFilterSortSettings {
       | "likes"
       | "comments"
       | "date"
+      | "added"
+      | "position"
       | "duration"
       | "title"
       | "channel"
@@ -53,12 +70,39 @@ interface PlaylistFilterSortSettings {
   };
 }
 
+// Daily quota ledger summary from the background (GET_QUOTA_STATUS)
+interface QuotaStatus {
+  day: string;
+  used: number;
+  budget: number;
+  remaining: number;
+  cacheOnly: boolean;
+}
+
+// Which subscribed channels feed the virtual SUBSCRIPTIONS source
+interface SubscriptionChannelFilter {
+  mode: "all" | "include" | "exclude";
+  channelIds: string[];
+}
+
 interface SelectedPlaylistSettings {
   playlistIds: string[];
   maxPlaylists: number;
   playlistSettings: Record<string, PlaylistFilterSortSettings>; // Per-playlist settings
+  shelfPages?: Record<string, ShelfPage[]>; // Pages each shelf appears on, homepage only when unset
 }
 
+// Popup API service, requests are reported to the background quota ledger
+const createApiService = (token: string) =>
+  new YoutubeApiService(token, {
+    onApiCall: (endpoint, responseTime, success, error) => {
+      chrome.runtime.sendMessage({
+        type: "TRACK_API_CALL",
+        data: { endpoint, responseTime, success, error },
+      });
+    },
+  });
+
 const CategoryDropdown = ({
   selectedCategories,
   onCategoryChange,
@@ -143,6 +187,300 @@ const CategoryDropdown = ({
   );
 };
 
+const SubscriptionChannelFilterPanel = ({ authToken }: { authToken: string }) => {
+  const [channels, setChannels] = useState<SubscriptionChannel[]>([]);
+  const [isLoadingChannels, setIsLoadingChannels] = useState(true);
+  const [channelFilter, setChannelFilter] = useState<SubscriptionChannelFilter>({
+    mode: "all",
+    channelIds: [],
+  });
+
+  useEffect(() => {
+    chrome.storage.local.get(["subscriptionChannelFilter"], (result) => {
+      if (result.subscriptionChannelFilter) {
+        setChannelFilter(result.subscriptionChannelFilter);
+      }
+    });
+
+    createApiService(authToken)
+      .getSubscriptions()
+      .then(setChannels)
+      .catch((error) => console.error("Failed to load subscriptions:", error))
+      .finally(() => setIsLoadingChannels(false));
+  }, [authToken]);
+
+  // Save the filter and drop the cached feed so the homepage rebuilds it
+  const saveChannelFilter = (newFilter: SubscriptionChannelFilter) => {
+    setChannelFilter(newFilter);
+    chrome.storage.local.get(["youtubePlaylistCache"], (result) => {
+      const cache = result.youtubePlaylistCache || {};
+      delete cache.SUBSCRIPTIONS;
+      chrome.storage.local.set({
+        subscriptionChannelFilter: newFilter,
+        youtubePlaylistCache: cache,
+      });
+    });
+  };
+
+  const toggleChannel = (channelId: string) => {
+    const channelIds = channelFilter.channelIds.includes(channelId)
+      ? channelFilter.channelIds.filter((id) => id !== channelId)
+      : [...channelFilter.channelIds, channelId];
+    saveChannelFilter({ ...channelFilter, channelIds });
+  };
+
+  return (
+    <div style={{ marginBottom: "12px" }}>
+      <h5 style={{ margin: "0 0 6px 0", fontSize: "12px" }}>Channels</h5>
+
+      <select
+        value={channelFilter.mode}
+        onChange={(e) =>
+          saveChannelFilter({
+            ...channelFilter,
+            mode: e.target.value as SubscriptionChannelFilter["mode"],
+          })
+        }
+        style={{
+          width: "100%",
+          padding: "4px",
+          border: "1px solid #ccc",
+          borderRadius: "3px",
+          fontSize: "11px",
+          marginBottom: "4px",
+        }}
+      >
+        <option value="all">All subscriptions</option>
+        <option value="include">Only checked channels</option>
+        <option value="exclude">All except checked channels</option>
+      </select>
+
+      {channelFilter.mode !== "all" && (
+        <div
+          style={{
+            maxHeight: "120px",
+            overflowY: "auto",
+            border: "1px solid #ccc",
+            borderRadius: "3px",
+            fontSize: "10px",
+          }}
+        >
+          {isLoadingChannels && (
+            <div style={{ padding: "4px 6px" }}>Loading channels...</div>
+          )}
+          {channels.map((channel) => (
+            <label
+              key={channel.channelId}
+              style={{
+                display: "block",
+                padding: "4px 6px",
+                cursor: "pointer",
+                borderBottom: "1px solid #eee",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={channelFilter.channelIds.includes(channel.channelId)}
+                onChange={() => toggleChannel(channel.channelId)}
+                style={{ marginRight: "6px", fontSize: "10px" }}
+              />
+              {channel.title}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Where the shelves go in the homepage grid
+interface ShelfPlacement {
+  position: "top" | "afterRow" | "belowShorts" | "bottom";
+  row: number; // used by "afterRow"
+}
+
+const DEFAULT_SHELF_PLACEMENT: ShelfPlacement = { position: "afterRow", row: 1 };
+
+const SHELF_PAGE_OPTIONS: { page: ShelfPage; label: string }[] = [
+  { page: "home", label: "Home" },
+  { page: "subscriptions", label: "Subscriptions" },
+  { page: "search", label: "Search results" },
+  { page: "watch", label: "Watch page (Up next)" },
+];
+
+// Virtual sources without a meaningful video count, the popup shows their description instead
+const DESCRIPTION_ONLY_SOURCES = ["SUBSCRIPTIONS", "WL", "CONTINUE_WATCHING"];
+
+// Cache key the content script stores a selected source under
+const getCacheKey = (playlistId: string): string => {
+  if (playlistId === "LL") return "LIKED_VIDEOS";
+  if (playlistId === "WL") return "WATCH_LATER";
+  return playlistId;
+};
+
+// Most common values first, so the datalist suggests the useful ones
+const countValues = (values: string[], limit: number): string[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+};
+
+// Chip list with a text input; suggestions come from a <datalist>
+const TermFilterInput = ({
+  terms,
+  listId,
+  placeholder,
+  onTermsChange,
+}: {
+  terms: string[];
+  listId: string;
+  placeholder: string;
+  onTermsChange: (terms: string[]) => void;
+}) => {
+  const [inputValue, setInputValue] = useState("");
+
+  const addTerm = () => {
+    const term = inputValue.trim();
+    if (term && !terms.some((t) => t.toLowerCase() === term.toLowerCase())) {
+      onTermsChange([...terms, term]);
+    }
+    setInputValue("");
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        list={listId}
+        value={inputValue}
+        onChange={(e) => setInputValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            addTerm();
+          }
+        }}
+        onBlur={addTerm}
+        placeholder={placeholder}
+        style={{
+          width: "100%",
+          padding: "4px",
+          border: "1px solid #ccc",
+          borderRadius: "3px",
+          fontSize: "11px",
+          boxSizing: "border-box",
+        }}
+      />
+      {terms.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "2px", marginTop: "2px" }}>
+          {terms.map((term) => (
+            <span
+              key={term}
+              onClick={() => onTermsChange(terms.filter((t) => t !== term))}
+              title="Remove"
+              style={{
+                padding: "1px 4px",
+                backgroundColor: "#3B3B3B",
+                color: "white",
+                borderRadius: "3px",
+                fontSize: "10px",
+                cursor: "pointer",
+              }}
+            >
+              {term} ✕
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Include/exclude tag and topic filters, with suggestions from the playlist's cached videos
+const TagTopicFilters = ({
+  playlistId,
+  filters,
+  onFilterChange,
+}: {
+  playlistId: string;
+  filters: PlaylistFilterSortSettings["filters"];
+  onFilterChange: (key: "includeTags" | "excludeTags" | "includeTopics" | "excludeTopics", terms: string[]) => void;
+}) => {
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [topicSuggestions, setTopicSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    chrome.storage.local.get(["youtubePlaylistCache"], (result) => {
+      const videos: { tags?: string[]; topics?: string[] }[] =
+        result.youtubePlaylistCache?.[getCacheKey(playlistId)]?.videos || [];
+      setTagSuggestions(countValues(videos.flatMap((video) => video.tags || []), 300));
+      setTopicSuggestions(countValues(videos.flatMap((video) => video.topics || []), 100));
+    });
+  }, [playlistId]);
+
+  const labelStyle = { display: "block", fontSize: "11px", marginBottom: "2px" };
+
+  return (
+    <>
+      <datalist id={`tags-${playlistId}`}>
+        {tagSuggestions.map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+      <datalist id={`topics-${playlistId}`}>
+        {topicSuggestions.map((topic) => (
+          <option key={topic} value={topic} />
+        ))}
+      </datalist>
+
+      <div style={{ display: "flex", gap: "6px", marginBottom: "8px" }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <label style={labelStyle}>Include tags:</label>
+          <TermFilterInput
+            terms={filters.includeTags}
+            listId={`tags-${playlistId}`}
+            placeholder="Any of..."
+            onTermsChange={(terms) => onFilterChange("includeTags", terms)}
+          />
+        </div>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <label style={labelStyle}>Exclude tags:</label>
+          <TermFilterInput
+            terms={filters.excludeTags}
+            listId={`tags-${playlistId}`}
+            placeholder="None of..."
+            onTermsChange={(terms) => onFilterChange("excludeTags", terms)}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "6px", marginBottom: "8px" }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <label style={labelStyle}>Include topics:</label>
+          <TermFilterInput
+            terms={filters.includeTopics}
+            listId={`topics-${playlistId}`}
+            placeholder="Any of..."
+            onTermsChange={(terms) => onFilterChange("includeTopics", terms)}
+          />
+        </div>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <label style={labelStyle}>Exclude topics:</label>
+          <TermFilterInput
+            terms={filters.excludeTopics}
+            listId={`topics-${playlistId}`}
+            placeholder="None of..."
+            onTermsChange={(terms) => onFilterChange("excludeTopics", terms)}
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
 const UploadDateDropdown = ({
   selectedDate,
   onDateChange,
@@ -232,12 +570,24 @@ function App() {
   const [playlistSettings, setPlaylistSettings] = useState<
     Record<string, PlaylistFilterSortSettings>
   >({});
+  const [shelfPages, setShelfPages] = useState<Record<string, ShelfPage[]>>({});
   const [expandedPlaylistId, setExpandedPlaylistId] = useState<string | null>(
     null
   );
   const [playlistSearchTerm, setPlaylistSearchTerm] = useState<string>("");
   const [saveTimeout, setSaveTimeout] = useState<NodeJS.Timeout | null>(null);
   const [videoFetchCount, setVideoFetchCount] = useState<50 | 200 | 'all'>(50);
+  const [shelfPlacement, setShelfPlacement] = useState<ShelfPlacement>(DEFAULT_SHELF_PLACEMENT);
+  const [playlistsNextPageToken, setPlaylistsNextPageToken] = useState<
+    string | null
+  >(null);
+  const [isLoadingMorePlaylists, setIsLoadingMorePlaylists] = useState(false);
+  const [customSources, setCustomSources] = useState<PlaylistInfo[]>([]);
+  const [sourceInput, setSourceInput] = useState<string>("");
+  const [isAddingSource, setIsAddingSource] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+  const [quotaBudgetInput, setQuotaBudgetInput] = useState<string>("");
 
   // Check for existing auth token and settings on popup load
   useEffect(() => {
@@ -266,8 +616,18 @@ function App() {
           }
         );
 
+        // Get today's quota usage from the background ledger
+        chrome.runtime.sendMessage({ type: "GET_QUOTA_STATUS" }, (response) => {
+          if (chrome.runtime.lastError || !response || response.error) {
+            console.warn("Could not load quota status");
+            return;
+          }
+          setQuotaStatus(response);
+          setQuotaBudgetInput(String(response.budget));
+        });
+
         // Get saved playlist selection and per-playlist settings
-        chrome.storage.local.get(["selectedPlaylists", "videoFetchCount"], (result) => {
+        chrome.storage.local.get(["selectedPlaylists", "videoFetchCount", "shelfPlacement", "customPlaylistSources"], (result) => {
           if (result.selectedPlaylists) {
             setSavedSettings(result.selectedPlaylists);
             setSelectedPlaylistIds(result.selectedPlaylists.playlistIds || []);
@@ -276,12 +636,24 @@ function App() {
             if (result.selectedPlaylists.playlistSettings) {
               setPlaylistSettings(result.selectedPlaylists.playlistSettings);
             }
+            if (result.selectedPlaylists.shelfPages) {
+              setShelfPages(result.selectedPlaylists.shelfPages);
+            }
           }
           
           // NEW: Load video fetch count setting
           if (result.videoFetchCount) {
             setVideoFetchCount(result.videoFetchCount);
           }
+
+          if (result.shelfPlacement) {
+            setShelfPlacement({ ...DEFAULT_SHELF_PLACEMENT, ...result.shelfPlacement });
+          }
+
+          // Public playlists and channels added by URL
+          if (result.customPlaylistSources) {
+            setCustomSources(result.customPlaylistSources);
+          }
         });
       } catch (error) {
         console.error("Error loading initial data:", error);
@@ -358,27 +730,13 @@ function App() {
   chrome.storage.local.remove(["selectedPlaylists"]);
 };
 
-  // Function to load user's playlists
+  // Function to load user's playlists (first page, more pages load on scroll)
   const loadUserPlaylists = async (token: string) => {
     setIsLoadingPlaylists(true);
 
     try {
-      const playlistsResponse = await fetch(
-        "https://www.googleapis.com/youtube/v3/playlists?part=snippet,contentDetails,status&mine=true&maxResults=25",
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-      const playlistsData = await playlistsResponse.json();
-
-      if (playlistsData.error) {
-        console.error(
-          "API Error fetching playlists:",
-          playlistsData.error.message
-        );
-        setPlaylists([]);
-        return;
-      }
+      const apiService = createApiService(token);
+      const firstPage = await apiService.getUserPlaylistsPage();
 
       let likedVideosCount = 0;
       try {
@@ -404,36 +762,139 @@ function App() {
         privacy: "private",
       };
 
-      if (playlistsData.items && playlistsData.items.length > 0) {
-        const formattedPlaylists: PlaylistInfo[] = playlistsData.items.map(
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (item: any) => ({
-            id: item.id,
-            title: item.snippet.title,
-            description: item.snippet.description || "",
-            thumbnailUrl:
-              item.snippet.thumbnails?.high?.url ||
-              item.snippet.thumbnails?.default?.url ||
-              "",
-            videoCount: item.contentDetails?.itemCount || 0,
-            privacy: item.status?.privacyStatus || "private",
-          })
-        );
+      // Virtual source built from the latest uploads of subscribed channels
+      const subscriptionsPlaylist: PlaylistInfo = {
+        id: "SUBSCRIPTIONS",
+        title: "Latest from Subscriptions",
+        description: "Latest uploads from your subscriptions",
+        thumbnailUrl: "",
+        videoCount: 0,
+        privacy: "private",
+      };
 
-        // Add Watch Later as the first option
-        setPlaylists([likedVideosPlaylist, ...formattedPlaylists]);
-      } else {
-        // Even if no regular playlists, still show Watch Later
-        setPlaylists([likedVideosPlaylist]);
-      }
+      // The API can't read Watch Later, the content script syncs it from the WL page
+      const watchLaterPlaylist: PlaylistInfo = {
+        id: "WL",
+        title: "Watch Later",
+        description: "Synced when you visit your Watch Later page",
+        thumbnailUrl: "",
+        videoCount: 0,
+        privacy: "private",
+      };
+
+      // Built by the content script from locally recorded watch progress
+      const continueWatchingPlaylist: PlaylistInfo = {
+        id: "CONTINUE_WATCHING",
+        title: "Continue Watching",
+        description: "Partly watched videos from your selected playlists",
+        thumbnailUrl: "",
+        videoCount: 0,
+        privacy: "private",
+      };
+
+      // Virtual sources always come first, even if there are no regular playlists
+      setPlaylists([
+        continueWatchingPlaylist,
+        likedVideosPlaylist,
+        watchLaterPlaylist,
+        subscriptionsPlaylist,
+        ...firstPage.playlists,
+      ]);
+      setPlaylistsNextPageToken(firstPage.nextPageToken || null);
     } catch (error) {
       console.error("Failed to fetch playlists:", error);
       setPlaylists([]);
+      setPlaylistsNextPageToken(null);
     } finally {
       setIsLoadingPlaylists(false);
     }
   };
 
+  // Load the next page of playlists when the list is scrolled near the bottom
+  const loadMorePlaylists = async () => {
+    if (!authToken || !playlistsNextPageToken || isLoadingMorePlaylists) {
+      return;
+    }
+
+    setIsLoadingMorePlaylists(true);
+
+    try {
+      const apiService = createApiService(authToken);
+      const page = await apiService.getUserPlaylistsPage(playlistsNextPageToken);
+
+      setPlaylists((prev) => [
+        ...prev,
+        ...page.playlists.filter((p) => !prev.some((existing) => existing.id === p.id)),
+      ]);
+      setPlaylistsNextPageToken(page.nextPageToken || null);
+    } catch (error) {
+      console.error("Failed to fetch more playlists:", error);
+    } finally {
+      setIsLoadingMorePlaylists(false);
+    }
+  };
+
+  // Resolve a playlist URL, list= ID, channel URL or @handle and add it as a source
+  const addCustomSource = async () => {
+    if (!authToken || !sourceInput.trim()) return;
+
+    setIsAddingSource(true);
+    setSourceError(null);
+
+    try {
+      const source = await createApiService(authToken).resolvePlaylistSource(sourceInput);
+      const updatedSources = [
+        source,
+        ...customSources.filter((existing) => existing.id !== source.id),
+      ];
+
+      chrome.storage.local.set({ customPlaylistSources: updatedSources }, () => {
+        setCustomSources(updatedSources);
+        setSourceInput("");
+        if (!selectedPlaylistIds.includes(source.id)) {
+          handlePlaylistToggle(source.id);
+        }
+      });
+    } catch (error) {
+      console.error("Failed to resolve playlist source:", error);
+      setSourceError(
+        error instanceof Error ? error.message : "Couldn't add that playlist"
+      );
+    } finally {
+      setIsAddingSource(false);
+    }
+  };
+
+  // Remove a source added by URL (and deselect it)
+  const removeCustomSource = (sourceId: string) => {
+    const updatedSources = customSources.filter((source) => source.id !== sourceId);
+    chrome.storage.local.set({ customPlaylistSources: updatedSources }, () => {
+      setCustomSources(updatedSources);
+      setSelectedPlaylistIds((prev) => prev.filter((id) => id !== sourceId));
+    });
+  };
+
+  // Save the daily quota budget used by the background ledger
+  const saveQuotaBudget = () => {
+    const budget = parseInt(quotaBudgetInput);
+    if (!budget || budget <= 0) {
+      setQuotaBudgetInput(quotaStatus ? String(quotaStatus.budget) : "");
+      return;
+    }
+
+    chrome.storage.local.set({ quotaBudget: budget }, () => {
+      if (chrome.runtime.lastError) {
+        console.error("Failed to save quota budget:", chrome.runtime.lastError);
+        return;
+      }
+      chrome.runtime.sendMessage({ type: "GET_QUOTA_STATUS" }, (response) => {
+        if (!chrome.runtime.lastError && response && !response.error) {
+          setQuotaStatus(response);
+        }
+      });
+    });
+  };
+
   // Handle playlist selection
   const handlePlaylistToggle = (playlistId: string) => {
     setSelectedPlaylistIds((prev) => {
@@ -452,18 +913,80 @@ function App() {
     });
   };
 
+  // Changes the saved selection right away, for controls without the Save button
+  // The stored settings are read back first, so unsaved checkbox changes in the popup stay unsaved
+  const updateSavedSelection = (
+    update: (stored: SelectedPlaylistSettings) => SelectedPlaylistSettings,
+    logMessage: string
+  ) => {
+    chrome.storage.local.get(["selectedPlaylists"], (result) => {
+      const stored: SelectedPlaylistSettings | undefined = result.selectedPlaylists;
+      if (!stored) return; // nothing saved yet, the Save button saves everything
+
+      const storageSettings = update(stored);
+      chrome.storage.local.set({ selectedPlaylists: storageSettings }, () => {
+        if (!chrome.runtime.lastError) {
+          setSavedSettings(storageSettings);
+          console.log(logMessage);
+        }
+      });
+    });
+  };
+
+  // Position of an ID in the new order, unchecked (but still saved) shelves go last
+  const getOrderIndex = (order: string[], playlistId: string) =>
+    order.includes(playlistId) ? order.indexOf(playlistId) : order.length;
+
+  // Move a selected shelf up or down, saved right away; the selection order is the shelf order on YouTube
+  const moveSelectedPlaylist = (playlistId: string, offset: -1 | 1) => {
+    const index = selectedPlaylistIds.indexOf(playlistId);
+    const targetIndex = index + offset;
+    if (index === -1 || targetIndex < 0 || targetIndex >= selectedPlaylistIds.length) {
+      return;
+    }
+
+    const reordered = [...selectedPlaylistIds];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+
+    setSelectedPlaylistIds(reordered);
+    // Only the saved shelves are reordered; ones checked but not saved yet wait for the Save button
+    updateSavedSelection(
+      (stored) => ({
+        ...stored,
+        playlistIds: [...stored.playlistIds].sort(
+          (a, b) => getOrderIndex(reordered, a) - getOrderIndex(reordered, b)
+        ),
+      }),
+      "Saved shelf order"
+    );
+  };
+
+  // Change where the shelves go on the homepage, saved right away
+  const updateShelfPlacement = (changes: Partial<ShelfPlacement>) => {
+    const updatedPlacement = { ...shelfPlacement, ...changes };
+
+    setShelfPlacement(updatedPlacement);
+    chrome.storage.local.set({ shelfPlacement: updatedPlacement }, () => {
+      if (!chrome.runtime.lastError) {
+        console.log(`Saved homepage placement: ${updatedPlacement.position}`);
+      }
+    });
+  };
+
   // Save playlist selection
   const savePlaylistSelection = () => {
     const settings: SelectedPlaylistSettings = {
       playlistIds: selectedPlaylistIds,
       maxPlaylists: 3,
       playlistSettings: playlistSettings,
+      shelfPages: shelfPages,
     };
 
-    // Save both playlist selection and video count
+    // Save playlist selection, video count and homepage placement
     chrome.storage.local.set({ 
       selectedPlaylists: settings,
-      videoFetchCount: videoFetchCount  // NEW: Save video count setting
+      videoFetchCount: videoFetchCount,  // NEW: Save video count setting
+      shelfPlacement: shelfPlacement,
     }, () => {
       if (chrome.runtime.lastError) {
         console.error(
@@ -482,6 +1005,7 @@ function App() {
   const clearAllSelections = () => {
     setSelectedPlaylistIds([]);
     setPlaylistSettings({});
+    setShelfPages({});
     setExpandedPlaylistId(null);
     chrome.storage.local.remove(["selectedPlaylists"], () => {
       setSavedSettings(null);
@@ -510,6 +1034,18 @@ function App() {
       channels: [],
       categories: [], // NEW
       keywords: "",
+      liveContent: "all",
+      shorts: "include",
+      captionedOnly: false,
+      hdOnly: false,
+      languages: [],
+      includeTags: [],
+      excludeTags: [],
+      includeTopics: [],
+      excludeTopics: [],
+      addedWithin: "all",
+      hideWatched: false,
+      showHidden: false,
     },
     sort: {
       by: "default",
@@ -517,8 +1053,16 @@ function App() {
     },
   });
 
+  // Sources added by URL are listed before the user's own playlists
+  const allSources = [
+    ...customSources.filter(
+      (source) => !playlists.some((playlist) => playlist.id === source.id)
+    ),
+    ...playlists,
+  ];
+
   // Filter playlists based on search term
-  const filteredPlaylists = playlists.filter((playlist) =>
+  const filteredPlaylists = allSources.filter((playlist) =>
     playlist.title.toLowerCase().includes(playlistSearchTerm.toLowerCase())
   );
 
@@ -554,6 +1098,7 @@ function App() {
           playlistIds: selectedPlaylistIds,
           maxPlaylists: 3,
           playlistSettings: updatedSettings,
+          shelfPages: shelfPages,
         };
 
         chrome.storage.local.set({ selectedPlaylists: storageSettings }, () => {
@@ -569,6 +1114,24 @@ function App() {
     });
   };
 
+  // Turn a shelf on or off for one YouTube page, saved right away
+  const toggleShelfPage = (playlistId: string, page: ShelfPage) => {
+    const currentPages = shelfPages[playlistId] || ["home"];
+    const updatedPages = currentPages.includes(page)
+      ? currentPages.filter((p) => p !== page)
+      : [...currentPages, page];
+    const updatedShelfPages = { ...shelfPages, [playlistId]: updatedPages };
+
+    setShelfPages(updatedShelfPages);
+    updateSavedSelection(
+      (stored) => ({
+        ...stored,
+        shelfPages: { ...stored.shelfPages, [playlistId]: updatedPages },
+      }),
+      `Saved pages for playlist: ${playlistId}`
+    );
+  };
+
   // Reset settings for a specific playlist
   const resetPlaylistSettings = (playlistId: string) => {
     setPlaylistSettings((prev) => {
@@ -580,6 +1143,7 @@ function App() {
         playlistIds: selectedPlaylistIds,
         maxPlaylists: 3,
         playlistSettings: updatedSettings,
+        shelfPages: shelfPages,
       };
 
       chrome.storage.local.set({ selectedPlaylists: storageSettings }, () => {
@@ -620,6 +1184,28 @@ function App() {
         categories:
           storedSettings.filters?.categories || defaults.filters.categories,
         keywords: storedSettings.filters?.keywords || defaults.filters.keywords,
+        liveContent:
+          storedSettings.filters?.liveContent || defaults.filters.liveContent,
+        shorts: storedSettings.filters?.shorts || defaults.filters.shorts,
+        captionedOnly:
+          storedSettings.filters?.captionedOnly || defaults.filters.captionedOnly,
+        hdOnly: storedSettings.filters?.hdOnly || defaults.filters.hdOnly,
+        languages:
+          storedSettings.filters?.languages || defaults.filters.languages,
+        includeTags:
+          storedSettings.filters?.includeTags || defaults.filters.includeTags,
+        excludeTags:
+          storedSettings.filters?.excludeTags || defaults.filters.excludeTags,
+        includeTopics:
+          storedSettings.filters?.includeTopics || defaults.filters.includeTopics,
+        excludeTopics:
+          storedSettings.filters?.excludeTopics || defaults.filters.excludeTopics,
+        addedWithin:
+          storedSettings.filters?.addedWithin || defaults.filters.addedWithin,
+        hideWatched:
+          storedSettings.filters?.hideWatched || defaults.filters.hideWatched,
+        showHidden:
+          storedSettings.filters?.showHidden || defaults.filters.showHidden,
       },
       sort: {
         by: storedSettings.sort?.by || defaults.sort.by,
@@ -659,12 +1245,33 @@ const hasCustomSettings = (playlistId: string): boolean => {
   
   // Upload date filter
   if (filters.uploadDate !== defaults.filters.uploadDate) return true;
+
+  // Added to playlist filter
+  if (filters.addedWithin && filters.addedWithin !== defaults.filters.addedWithin) return true;
   
   // Categories filter
   if (filters.categories.length > 0) return true;
   
   // Channels filter
   if (filters.channels.length > 0) return true;
+
+  // Live/upcoming filter
+  if (filters.liveContent && filters.liveContent !== defaults.filters.liveContent) return true;
+
+  // Shorts filter
+  if (filters.shorts && filters.shorts !== defaults.filters.shorts) return true;
+
+  // Captions, HD, watched and language filters
+  if (filters.captionedOnly || filters.hdOnly || filters.hideWatched || filters.showHidden) return true;
+  if (filters.languages && filters.languages.length > 0) return true;
+
+  // Tag and topic filters
+  if (
+    filters.includeTags?.length ||
+    filters.excludeTags?.length ||
+    filters.includeTopics?.length ||
+    filters.excludeTopics?.length
+  ) return true;
   
   // Sort settings
   if (storedSettings.sort.by !== defaults.sort.by || 
@@ -703,6 +1310,42 @@ const hasCustomSettings = (playlistId: string): boolean => {
               <button onClick={() => authToken && loadUserPlaylists(authToken)}>
                 Refresh Playlists
               </button>
+
+              {/* Daily quota ledger */}
+              {quotaStatus && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    marginTop: "8px",
+                    fontSize: "11px",
+                    color: quotaStatus.cacheOnly ? "#f44336" : "#aaa",
+                  }}
+                >
+                  <span>
+                    Quota today: {quotaStatus.used} /
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={quotaBudgetInput}
+                    onChange={(e) => setQuotaBudgetInput(e.target.value)}
+                    onBlur={saveQuotaBudget}
+                    title="Daily quota budget (units)"
+                    style={{
+                      width: "70px",
+                      padding: "2px 4px",
+                      border: "1px solid #ccc",
+                      borderRadius: "3px",
+                      fontSize: "11px",
+                    }}
+                  />
+                  <span>
+                    units{quotaStatus.cacheOnly ? " (cache only)" : ""}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Loading state */}
@@ -853,6 +1496,144 @@ const hasCustomSettings = (playlistId: string): boolean => {
                 )}
               </div>
 
+                {/* Homepage placement and shelf order, saved with the selection */}
+                {selectedPlaylistIds.length > 0 && (
+                  <div style={{ marginBottom: "12px" }}>
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        marginBottom: "8px",
+                      }}
+                    >
+                      <h4 style={{ margin: "0", fontSize: "13px", color: "white", flexShrink: 0 }}>
+                        Homepage placement:
+                      </h4>
+                      <select
+                        value={shelfPlacement.position}
+                        onChange={(e) =>
+                          updateShelfPlacement({
+                            position: e.target.value as ShelfPlacement["position"],
+                          })
+                        }
+                        style={{
+                          padding: "4px",
+                          border: "1px solid #ccc",
+                          borderRadius: "3px",
+                          fontSize: "12px",
+                        }}
+                      >
+                        <option value="top">Top of the feed</option>
+                        <option value="afterRow">After row…</option>
+                        <option value="belowShorts">Below Shorts</option>
+                        <option value="bottom">Bottom (after the first loaded videos)</option>
+                      </select>
+                      {shelfPlacement.position === "afterRow" && (
+                        <input
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={shelfPlacement.row}
+                          onChange={(e) =>
+                            updateShelfPlacement({
+                              row: Math.min(10, Math.max(1, Number(e.target.value) || 1)),
+                            })
+                          }
+                          style={{
+                            width: "48px",
+                            padding: "4px",
+                            border: "1px solid #ccc",
+                            borderRadius: "3px",
+                            fontSize: "12px",
+                          }}
+                        />
+                      )}
+                    </div>
+
+                    {selectedPlaylistIds.length > 1 && (
+                      <>
+                        <h4 style={{ margin: "0 0 4px 0", fontSize: "13px", color: "white" }}>
+                          Shelf order:
+                        </h4>
+                        {selectedPlaylistIds.map((playlistId, index) => (
+                          <div
+                            key={playlistId}
+                            style={{
+                              display: "flex",
+                              alignItems: "center",
+                              gap: "4px",
+                              fontSize: "12px",
+                              marginBottom: "2px",
+                            }}
+                          >
+                            <span style={{ width: "16px", color: "#888" }}>{index + 1}.</span>
+                            <span
+                              style={{
+                                flex: 1,
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                              }}
+                            >
+                              {allSources.find((source) => source.id === playlistId)?.title || playlistId}
+                            </span>
+                            <button
+                              onClick={() => moveSelectedPlaylist(playlistId, -1)}
+                              disabled={index === 0}
+                              title="Move up"
+                              style={{ padding: "0 6px", fontSize: "11px" }}
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => moveSelectedPlaylist(playlistId, 1)}
+                              disabled={index === selectedPlaylistIds.length - 1}
+                              title="Move down"
+                              style={{ padding: "0 6px", fontSize: "11px" }}
+                            >
+                              ↓
+                            </button>
+                          </div>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Add a public playlist or channel by URL */}
+                <div style={{ marginBottom: "8px" }}>
+                  <div style={{ display: "flex", gap: "6px" }}>
+                    <input
+                      type="text"
+                      value={sourceInput}
+                      onChange={(e) => setSourceInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && addCustomSource()}
+                      placeholder="Add playlist URL, channel URL or @handle..."
+                      style={{
+                        flex: 1,
+                        padding: "6px 8px",
+                        border: "1px solid #ccc",
+                        borderRadius: "4px",
+                        boxSizing: "border-box",
+                        fontSize: "12px",
+                      }}
+                    />
+                    <button
+                      onClick={addCustomSource}
+                      disabled={isAddingSource || !sourceInput.trim()}
+                      style={{ padding: "4px 10px", fontSize: "11px" }}
+                    >
+                      {isAddingSource ? "Adding..." : "Add"}
+                    </button>
+                  </div>
+                  {sourceError && (
+                    <div style={{ fontSize: "11px", color: "#f44336", marginTop: "4px" }}>
+                      {sourceError}
+                    </div>
+                  )}
+                </div>
+
                 {/* Live Search Bar */}
                 <div style={{ marginBottom: "12px" }}>
                   <input
@@ -873,6 +1654,12 @@ const hasCustomSettings = (playlistId: string): boolean => {
 
                 <div>
   <div
+    onScroll={(e) => {
+      const list = e.currentTarget;
+      if (list.scrollTop + list.clientHeight >= list.scrollHeight - 40) {
+        loadMorePlaylists();
+      }
+    }}
     style={{
       maxHeight: "330px",
       overflowY: "auto",
@@ -938,11 +1725,35 @@ const hasCustomSettings = (playlistId: string): boolean => {
                   )}
                 </div>
                 <div style={{ fontSize: "12px", color: "#666" }}>
-                  {playlist.videoCount} videos •{" "}
-                  {playlist.privacy}
+                  {DESCRIPTION_ONLY_SOURCES.includes(playlist.id) ? (
+                    playlist.description
+                  ) : (
+                    <>
+                      {playlist.videoCount} videos •{" "}
+                      {playlist.privacy}
+                    </>
+                  )}
                 </div>
               </div>
 
+              {customSources.some((source) => source.id === playlist.id) && (
+                <button
+                  onClick={() => removeCustomSource(playlist.id)}
+                  title="Remove this source"
+                  style={{
+                    padding: "4px 8px",
+                    marginRight: "4px",
+                    backgroundColor: "transparent",
+                    border: "1px solid #ccc",
+                    borderRadius: "3px",
+                    cursor: "pointer",
+                    fontSize: "12px",
+                  }}
+                >
+                  ✕
+                </button>
+              )}
+
               {isSelected && (
                 <button
                   onClick={(e) => {
@@ -976,6 +1787,43 @@ const hasCustomSettings = (playlistId: string): boolean => {
                   borderRadius: "4px",
                 }}
               >
+                {/* Channel include/exclude for the subscriptions feed */}
+                {playlist.id === "SUBSCRIPTIONS" && authToken && (
+                  <SubscriptionChannelFilterPanel authToken={authToken} />
+                )}
+
+                {/* Pages this shelf appears on */}
+                <div style={{ marginBottom: "12px" }}>
+                  <h5
+                    style={{
+                      margin: "0 0 6px 0",
+                      fontSize: "12px",
+                    }}
+                  >
+                    Show on
+                  </h5>
+                  <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px" }}>
+                    {SHELF_PAGE_OPTIONS.map(({ page, label }) => (
+                      <label
+                        key={page}
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "4px",
+                          fontSize: "11px",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={(shelfPages[playlist.id] || ["home"]).includes(page)}
+                          onChange={() => toggleShelfPage(playlist.id, page)}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Filters */}
                 <div style={{ marginBottom: "12px" }}>
                   <h5
@@ -1077,6 +1925,29 @@ const hasCustomSettings = (playlistId: string): boolean => {
                     </div>
                   </div>
 
+                  {/* Added To Playlist Row */}
+                  <div style={{ marginBottom: "8px" }}>
+                    <label
+                      style={{
+                        display: "block",
+                        fontSize: "11px",
+                        marginBottom: "2px",
+                      }}
+                    >
+                      Added to playlist:
+                    </label>
+                    <UploadDateDropdown
+                      selectedDate={settings.filters.addedWithin}
+                      onDateChange={(date) =>
+                        updatePlaylistSetting(
+                          playlist.id,
+                          ["filters", "addedWithin"],
+                          date
+                        )
+                      }
+                    />
+                  </div>
+
                   {/* View Count & Like Count Row */}
                   <div
                     style={{
@@ -1412,6 +2283,233 @@ const hasCustomSettings = (playlistId: string): boolean => {
                       </div>
                     </div>
                   </div>
+
+                  {/* Live & Upcoming + Shorts Row */}
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: "6px",
+                      marginBottom: "8px",
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "11px",
+                          marginBottom: "2px",
+                        }}
+                      >
+                        Live & upcoming:
+                      </label>
+                      <select
+                        value={settings.filters.liveContent}
+                        onChange={(e) =>
+                          updatePlaylistSetting(
+                            playlist.id,
+                            ["filters", "liveContent"],
+                            e.target.value
+                          )
+                        }
+                        style={{
+                          width: "100%",
+                          padding: "4px",
+                          border: "1px solid #ccc",
+                          borderRadius: "3px",
+                          fontSize: "11px",
+                        }}
+                      >
+                        <option value="all">Show all videos</option>
+                        <option value="hide">Hide live & upcoming</option>
+                        <option value="only">Only live & upcoming</option>
+                      </select>
+                    </div>
+
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "11px",
+                          marginBottom: "2px",
+                        }}
+                      >
+                        Shorts:
+                      </label>
+                      <select
+                        value={settings.filters.shorts}
+                        onChange={(e) =>
+                          updatePlaylistSetting(
+                            playlist.id,
+                            ["filters", "shorts"],
+                            e.target.value
+                          )
+                        }
+                        style={{
+                          width: "100%",
+                          padding: "4px",
+                          border: "1px solid #ccc",
+                          borderRadius: "3px",
+                          fontSize: "11px",
+                        }}
+                      >
+                        <option value="include">Include Shorts</option>
+                        <option value="exclude">Exclude Shorts</option>
+                        <option value="only">Only Shorts</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Captions, HD & Language Row */}
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: "6px",
+                      marginBottom: "8px",
+                      alignItems: "flex-end",
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <label
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "4px",
+                          fontSize: "11px",
+                          marginBottom: "4px",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={settings.filters.captionedOnly}
+                          onChange={(e) =>
+                            updatePlaylistSetting(
+                              playlist.id,
+                              ["filters", "captionedOnly"],
+                              e.target.checked
+                            )
+                          }
+                        />
+                        Only with captions
+                      </label>
+                      <label
+                        title="YouTube's API doesn't report 4K, so this keeps every HD video"
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "4px",
+                          fontSize: "11px",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={settings.filters.hdOnly}
+                          onChange={(e) =>
+                            updatePlaylistSetting(
+                              playlist.id,
+                              ["filters", "hdOnly"],
+                              e.target.checked
+                            )
+                          }
+                        />
+                        Only HD
+                      </label>
+                      <label
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "4px",
+                          fontSize: "11px",
+                          marginTop: "4px",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={settings.filters.hideWatched}
+                          onChange={(e) =>
+                            updatePlaylistSetting(
+                              playlist.id,
+                              ["filters", "hideWatched"],
+                              e.target.checked
+                            )
+                          }
+                        />
+                        Hide watched
+                      </label>
+                      <label
+                        title="Videos marked watched, dismissed or snoozed from a shelf tile"
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: "4px",
+                          fontSize: "11px",
+                          marginTop: "4px",
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={settings.filters.showHidden}
+                          onChange={(e) =>
+                            updatePlaylistSetting(
+                              playlist.id,
+                              ["filters", "showHidden"],
+                              e.target.checked
+                            )
+                          }
+                        />
+                        Show hidden
+                      </label>
+                    </div>
+
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <label
+                        style={{
+                          display: "block",
+                          fontSize: "11px",
+                          marginBottom: "2px",
+                        }}
+                      >
+                        Audio languages:
+                      </label>
+                      <input
+                        type="text"
+                        // remount when the saved list changes (e.g. reset), edits are saved on blur
+                        key={settings.filters.languages.join(",")}
+                        defaultValue={settings.filters.languages.join(", ")}
+                        onBlur={(e) =>
+                          updatePlaylistSetting(
+                            playlist.id,
+                            ["filters", "languages"],
+                            e.target.value
+                              .split(",")
+                              .map((code) => code.trim())
+                              .filter(Boolean)
+                          )
+                        }
+                        placeholder="e.g. en, es"
+                        style={{
+                          width: "100%",
+                          padding: "4px",
+                          border: "1px solid #ccc",
+                          borderRadius: "3px",
+                          fontSize: "11px",
+                          boxSizing: "border-box",
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Tags & Topics Rows */}
+                  <TagTopicFilters
+                    playlistId={playlist.id}
+                    filters={settings.filters}
+                    onFilterChange={(key, terms) =>
+                      updatePlaylistSetting(
+                        playlist.id,
+                        ["filters", key],
+                        terms
+                      )
+                    }
+                  />
                 </div>
 
                 {/* Sort */}
@@ -1453,6 +2551,10 @@ const hasCustomSettings = (playlistId: string): boolean => {
                           Comment count
                         </option>
                         <option value="date">Upload date</option>
+                        <option value="added">Date added</option>
+                        <option value="position">
+                          Playlist position
+                        </option>
                         <option value="duration">Duration</option>
                         <option value="title">Title (A-Z)</option>
                         <option value="channel">
@@ -1530,6 +2632,13 @@ const hasCustomSettings = (playlistId: string): boolean => {
         }
       </div>
     )}
+
+    {/* More playlists load as the list is scrolled */}
+    {isLoadingMorePlaylists && (
+      <div style={{ textAlign: "center", padding: "8px", fontSize: "12px", color: "#666" }}>
+        Loading more playlists...
+      </div>
+    )}
   </div>
 
   {/* Saved Settings Indicator */}
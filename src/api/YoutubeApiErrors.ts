@@ -0,0 +1,111 @@
+// Typed errors for YouTube Data API failures
+// Each error carries the HTTP status and the first `error.errors[].reason` from YouTube
+
+class YoutubeApiError extends Error {
+  readonly status: number;
+  readonly reason: string;
+
+  constructor(message: string, status: number, reason: string) {
+    super(message);
+    this.name = "YoutubeApiError";
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+// Daily quota used up (403 quotaExceeded / dailyLimitExceeded)
+class QuotaExceededError extends YoutubeApiError {
+  constructor(message: string, status: number, reason: string) {
+    super(message, status, reason);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// OAuth token expired or revoked (401)
+class AuthError extends YoutubeApiError {
+  constructor(message: string, status: number, reason: string) {
+    super(message, status, reason);
+    this.name = "AuthError";
+  }
+}
+
+// Playlist deleted, private or otherwise not accessible (404, or 403 on playlist reasons)
+class PlaylistNotFoundError extends YoutubeApiError {
+  constructor(message: string, status: number, reason: string) {
+    super(message, status, reason);
+    this.name = "PlaylistNotFoundError";
+  }
+}
+
+// Too many requests in a short time (429, or 403 rateLimitExceeded)
+class RateLimitedError extends YoutubeApiError {
+  constructor(message: string, status: number, reason: string) {
+    super(message, status, reason);
+    this.name = "RateLimitedError";
+  }
+}
+
+// fetch() itself failed, so there is no HTTP status
+class NetworkOfflineError extends YoutubeApiError {
+  constructor(message: string) {
+    super(message, 0, "networkOffline");
+    this.name = "NetworkOfflineError";
+  }
+}
+
+const QUOTA_REASONS = ["quotaExceeded", "dailyLimitExceeded"];
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+const PLAYLIST_REASONS = [
+  "playlistNotFound",
+  "playlistForbidden",
+  "playlistItemsNotAccessible",
+];
+
+/**
+ * Picks the matching error class for a failed YouTube API response
+ */
+function createYoutubeApiError(
+  status: number,
+  reason: string,
+  message: string
+): YoutubeApiError {
+  const fullMessage = `YouTube API Error: ${status} - ${message}`;
+
+  if (QUOTA_REASONS.includes(reason)) {
+    return new QuotaExceededError(fullMessage, status, reason);
+  }
+  if (status === 429 || RATE_LIMIT_REASONS.includes(reason)) {
+    return new RateLimitedError(fullMessage, status, reason);
+  }
+  if (status === 401) {
+    return new AuthError(fullMessage, status, reason);
+  }
+  if (status === 404 || PLAYLIST_REASONS.includes(reason)) {
+    return new PlaylistNotFoundError(fullMessage, status, reason);
+  }
+
+  return new YoutubeApiError(fullMessage, status, reason);
+}
+
+/**
+ * Wraps anything thrown during a fetch flow so callers only deal with YoutubeApiError
+ */
+function toYoutubeApiError(error: unknown): YoutubeApiError {
+  if (error instanceof YoutubeApiError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new YoutubeApiError(message, 0, "unknown");
+}
+
+export {
+  YoutubeApiError,
+  QuotaExceededError,
+  AuthError,
+  PlaylistNotFoundError,
+  RateLimitedError,
+  NetworkOfflineError,
+  createYoutubeApiError,
+  toYoutubeApiError,
+};
@@ -1,4 +1,13 @@
-/* eslint-disable no-useless-catch */
+import {
+  AuthError,
+  NetworkOfflineError,
+  PlaylistNotFoundError,
+  QuotaExceededError,
+  RateLimitedError,
+  YoutubeApiError,
+  createYoutubeApiError,
+} from "./YoutubeApiErrors";
+
 // Interface for basic playlist information (what is retrieve from the playlists endpoint)
 interface PlaylistInfo {
   id: string;
@@ -11,6 +20,7 @@ interface PlaylistInfo {
 
 // Interface for raw playlist item from YouTube API
 interface YoutubePlaylistItem {
+  id?: string; // playlist item ID, needed to edit the playlist
   snippet: {
     resourceId: {
       videoId: string;
@@ -23,7 +33,8 @@ interface YoutubePlaylistItem {
       };
     };
     channelTitle: string;
-    publishedAt: string;
+    publishedAt: string; // when the video was added to the playlist
+    position?: number; // zero-based position in the playlist
   };
 }
 
@@ -32,9 +43,14 @@ interface YoutubeVideoDetails {
   id: string;
   snippet: {
     title: string;
+    channelId: string;
     channelTitle: string;
     publishedAt: string;
     categoryId: string;
+    liveBroadcastContent: "live" | "upcoming" | "none";
+    defaultAudioLanguage?: string;
+    defaultLanguage?: string;
+    tags?: string[];
     thumbnails: {
       high: {
         url: string;
@@ -43,12 +59,26 @@ interface YoutubeVideoDetails {
   };
   contentDetails: {
     duration: string;
+    definition: "hd" | "sd"; // the API doesn't say whether a video is 4K
+    caption: "true" | "false";
+    dimension: "2d" | "3d";
   };
   statistics: {
     viewCount: string;
     likeCount: string;      
     commentCount: string;   
   };
+  // Wikipedia URLs, e.g. https://en.wikipedia.org/wiki/Computer_programming
+  topicDetails?: {
+    topicCategories?: string[];
+  };
+  // only present for streams and premieres, past or current
+  liveStreamingDetails?: {
+    scheduledStartTime?: string;
+    actualStartTime?: string;
+    actualEndTime?: string;
+    concurrentViewers?: string;
+  };
 }
 
 // Updated Video interface with new fields
@@ -59,6 +89,7 @@ interface Video {
   snippet: {
     title: string;
     videoOwnerChannelTitle: string;
+    videoOwnerChannelId?: string; // missing on videos cached before channel details
     publishedAt: string;
     categoryId: string;
     categoryName: string;
@@ -72,15 +103,95 @@ interface Video {
   viewCount: number;
   likeCount: number;        
   commentCount: number;     
+  playlistItemId?: string; // set when the video came from a playlist the user may edit
+  liveStatus?: "live" | "upcoming" | "none"; // missing on videos cached before live detection
+  isPremiere?: boolean; // live/upcoming with a real duration is a premiere, not a stream
+  scheduledStartTime?: string;
+  concurrentViewers?: number;
+  isShort?: boolean; // not known to the API, set by the content script's Shorts check
+  definition?: "hd" | "sd";
+  hasCaptions?: boolean;
+  dimension?: "2d" | "3d";
+  defaultAudioLanguage?: string; // BCP-47, e.g. "en" or "pt-BR"
+  defaultLanguage?: string; // language of the title and description
+  tags?: string[]; // uploader-set tags
+  topics?: string[]; // readable topic names, e.g. "Computer programming"
+  addedAt?: string; // when the video was added to the playlist (snippet.publishedAt is the upload date)
+  position?: number; // zero-based position in the source playlist
+}
+
+// Channel the user is subscribed to
+interface SubscriptionChannel {
+  channelId: string;
+  title: string;
+  thumbnailUrl: string;
+}
+
+// Channel metadata shown next to videos (avatar, handle, subscriber count)
+interface ChannelDetails {
+  channelId: string;
+  title: string;
+  handle: string; // e.g. "@mkbhd", empty for channels without one
+  avatarUrl: string;
+  subscriberCount: number | null; // null when the channel hides it
 }
 
+// ETag of a single playlistItems page, plus what's needed to request that page again
+interface PlaylistPageETag {
+  pageToken?: string;
+  maxResults: number;
+  etag: string;
+}
+
+// ETag of a single videos.list chunk (up to 50 IDs), for refreshing video details conditionally
+interface VideoChunkETag {
+  videoIds: string[];
+  etag: string;
+}
+
+// Method, body and conditional ETag for a single API request (GET without a body by default)
+interface ApiRequestInit {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown;
+  etag?: string;
+}
+
+// Write methods are reported as e.g. "playlistItems.delete", since they cost more quota than reads
+const WRITE_METHOD_NAMES: Record<string, string> = {
+  POST: "insert",
+  PUT: "update",
+  DELETE: "delete",
+};
+
+// Optional hooks for whoever owns the service instance
+interface YoutubeApiServiceOptions {
+  // called once per HTTP request, e.g. to feed the background quota ledger
+  onApiCall?: (endpoint: string, responseTime: number, success: boolean, error?: string) => void;
+  // asked for a fresh token once when a request gets a 401, resolves null if none is available
+  refreshAuthToken?: (expiredToken: string) => Promise<string | null>;
+  // checked before each request of a multi-request fetch (pages, chunks, channels), resolves true to stop it
+  isQuotaBudgetExhausted?: () => Promise<boolean>;
+}
+
+// Parts requested for every video, the cached Video fields are built from these
+const VIDEO_DETAIL_PARTS = "snippet,contentDetails,statistics,liveStreamingDetails,topicDetails";
+
+// Retry policy for 429 and 5xx responses
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
 class YoutubeApiService {
   private readonly baseUrl = "https://www.googleapis.com/youtube/v3";
   private authToken: string;
+  private options: YoutubeApiServiceOptions;
   private categoryCache: Map<string, string> = new Map(); // cache for category ID -> name mapping
+  private playlistPageETags: Map<string, PlaylistPageETag[]> = new Map(); // playlist ID -> ETags of the pages last fetched
+  private videoChunkETags: Map<string, VideoChunkETag[]> = new Map(); // playlist ID -> ETags of the videos chunks last fetched
 
-  constructor(authToken: string) {
+  constructor(authToken: string, options: YoutubeApiServiceOptions = {}) {
     this.authToken = authToken;
+    this.options = options;
   }
 
   /**
@@ -91,12 +202,85 @@ class YoutubeApiService {
   }
 
   /**
-   * Generic method to make authenticated requests to YouTube Api
+   * Sends a request with the retry policy applied:
+   * 429/5xx are retried with exponential backoff, a 401 refreshes the token and retries once
    */
-  private async makeApiRequest<T>(
+  private async sendApiRequest(
   endpoint: string,
-  params: Record<string, string> = {}
-): Promise<T> {
+  params: Record<string, string> = {},
+  init: ApiRequestInit = {}
+): Promise<Response> {
+  let retryCount = 0;
+  let tokenRefreshed = false;
+
+  while (true) {
+    try {
+      return await this.sendSingleApiRequest(endpoint, params, init);
+    } catch (error) {
+      if (error instanceof AuthError && !tokenRefreshed && this.options.refreshAuthToken) {
+        tokenRefreshed = true;
+        console.log(`🔑 ${endpoint} returned 401, refreshing auth token`);
+
+        const newToken = await this.options.refreshAuthToken(this.authToken);
+        if (!newToken) throw error;
+
+        this.updateAuthToken(newToken);
+        continue;
+      }
+
+      if (this.isRetryableError(error) && retryCount < MAX_RETRIES) {
+        const delay = this.getRetryDelay(retryCount);
+        retryCount++;
+        console.log(`🔁 ${endpoint} failed (${(error as YoutubeApiError).status}), retry ${retryCount}/${MAX_RETRIES} in ${delay}ms`);
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      throw error;
+    }
+  }
+}
+
+  /**
+   * Throws once the owner's daily quota budget is used up, so long fetches stop partway
+   * instead of running past the budget
+   */
+  private async ensureQuotaBudget(): Promise<void> {
+    if (await this.options.isQuotaBudgetExhausted?.()) {
+      throw new QuotaExceededError("Daily quota budget reached", 0, "budgetExceeded");
+    }
+  }
+
+  /**
+   * Rate limits and server errors are worth retrying, everything else fails immediately
+   */
+  private isRetryableError(error: unknown): boolean {
+    return (
+      error instanceof RateLimitedError ||
+      (error instanceof YoutubeApiError && error.status >= 500)
+    );
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, the other half random
+   */
+  private getRetryDelay(retryCount: number): number {
+    const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retryCount);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Sends an authenticated request to the YouTube Api and returns the raw response.
+   * If an ETag is given it is sent as If-None-Match, and a 304 is passed through.
+   */
+  private async sendSingleApiRequest(
+  endpoint: string,
+  params: Record<string, string> = {},
+  init: ApiRequestInit = {}
+): Promise<Response> {
+  const { method = "GET", body, etag } = init;
+  const trackedEndpoint = method === "GET" ? endpoint : `${endpoint}.${WRITE_METHOD_NAMES[method]}`;
   const url = new URL(`${this.baseUrl}/${endpoint}`);
 
   // add params to url
@@ -104,69 +288,334 @@ class YoutubeApiService {
     url.searchParams.append(key, value);
   });
 
+  const startTime = Date.now();
+
   try {
     // make request to endpoint using inserted search params
     const response = await fetch(url.toString(), {
+      method,
       headers: {
         Authorization: `Bearer ${this.authToken}`,
         Accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+        ...(etag && { "If-None-Match": etag }),
       },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
     });
 
-    // if response isn't okay
-    if (!response.ok) {
+    // if response isn't okay (304 only happens for conditional requests)
+    if (!response.ok && response.status !== 304) {
       const errorData = await response.json().catch(() => ({}));
       const errorMessage = errorData.error?.message || "Unknown error";
+      const errorReason = errorData.error?.errors?.[0]?.reason || "unknown";
+
+      this.options.onApiCall?.(trackedEndpoint, Date.now() - startTime, false, errorReason);
       
-      throw new Error(
-        `YouTube API Error: ${response.status} - ${errorMessage}`
-      );
+      throw createYoutubeApiError(response.status, errorReason, errorMessage);
     }
 
-    return response.json();
+    this.options.onApiCall?.(trackedEndpoint, Date.now() - startTime, true);
+    return response;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } catch (error: any) {
-    throw error;
+    if (error instanceof YoutubeApiError) {
+      throw error;
+    }
+
+    // fetch() only rejects when the request never got a response
+    throw new NetworkOfflineError(`Network request to ${endpoint} failed: ${error.message}`);
+  }
+}
+
+  /**
+   * Generic method to make authenticated requests to YouTube Api
+   */
+  private async makeApiRequest<T>(
+  endpoint: string,
+  params: Record<string, string> = {},
+  init: ApiRequestInit = {}
+): Promise<T> {
+  const response = await this.sendApiRequest(endpoint, params, init);
+  return response.json();
+}
+
+  /**
+   * Conditional version of makeApiRequest
+   * Returns null when YouTube answers 304 Not Modified for the given ETag
+   */
+  private async makeConditionalApiRequest<T>(
+  endpoint: string,
+  params: Record<string, string>,
+  etag: string
+): Promise<T | null> {
+  const response = await this.sendApiRequest(endpoint, params, { etag });
+
+  if (response.status === 304) {
+    return null;
   }
+
+  return response.json();
 }
 
   /**
-   * Fetches all user playlists (their own playlists, not subscriptions)
+   * Creates an empty playlist owned by the user (50 quota units)
+   */
+  async createPlaylist(
+    title: string,
+    privacy: PlaylistInfo["privacy"],
+    description: string = ""
+  ): Promise<PlaylistInfo> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response = await this.makeApiRequest<any>(
+      "playlists",
+      { part: "snippet,status" },
+      {
+        method: "POST",
+        body: {
+          snippet: { title: title, description: description },
+          status: { privacyStatus: privacy },
+        },
+      }
+    );
+
+    return this.toPlaylistInfo(response);
+  }
+
+  /**
+   * Adds a video to the end of one of the user's playlists (50 quota units)
+   * Returns the new playlist item ID
+   */
+  async addPlaylistItem(playlistId: string, videoId: string): Promise<string> {
+    const response = await this.makeApiRequest<{ id: string }>(
+      "playlistItems",
+      { part: "snippet" },
+      {
+        method: "POST",
+        body: {
+          snippet: {
+            playlistId: playlistId,
+            resourceId: { kind: "youtube#video", videoId: videoId },
+          },
+        },
+      }
+    );
+
+    return response.id;
+  }
+
+  /**
+   * Moves an entry of one of the user's playlists to a new zero-based position (50 quota units)
+   * The API requires the playlist and video IDs alongside the playlist item ID
+   */
+  async updatePlaylistItemPosition(
+    playlistItemId: string,
+    playlistId: string,
+    videoId: string,
+    position: number
+  ): Promise<void> {
+    await this.makeApiRequest(
+      "playlistItems",
+      { part: "snippet" },
+      {
+        method: "PUT",
+        body: {
+          id: playlistItemId,
+          snippet: {
+            playlistId: playlistId,
+            resourceId: { kind: "youtube#video", videoId: videoId },
+            position: position,
+          },
+        },
+      }
+    );
+  }
+
+  /**
+   * Removes an entry from one of the user's playlists (50 quota units)
+   */
+  async removePlaylistItem(playlistItemId: string): Promise<void> {
+    // DELETE answers 204 with no body, so the response isn't parsed
+    await this.sendApiRequest("playlistItems", { id: playlistItemId }, { method: "DELETE" });
+  }
+
+  /**
+   * Fetches one page of the user's playlists (their own playlists, not subscriptions)
    */
-  async getUserPlaylists(maxResults: number = 25): Promise<PlaylistInfo[]> {
+  async getUserPlaylistsPage(
+    pageToken?: string,
+    maxResults: number = 50
+  ): Promise<{ playlists: PlaylistInfo[]; nextPageToken?: string }> {
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const response: any = await this.makeApiRequest("playlists", {
         part: "snippet,contentDetails,status",
         mine: "true",
         maxResults: maxResults.toString(),
+        ...(pageToken && { pageToken: pageToken }),
       });
 
-      if (!response.items) {
-        return [];
-      }
+      return {
+        playlists: (response.items || []).map(this.toPlaylistInfo),
+        nextPageToken: response.nextPageToken,
+      };
+    } catch (error) {
+      console.error("Failed to fetch user playlists", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches all user playlists, following nextPageToken until the last page
+   */
+  async getUserPlaylists(): Promise<PlaylistInfo[]> {
+    const allPlaylists: PlaylistInfo[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const page = await this.getUserPlaylistsPage(nextPageToken);
+      allPlaylists.push(...page.playlists);
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken);
 
-      // transform into PlaylistInfo format
-      return response.items.map(
+    return allPlaylists;
+  }
+
+  /**
+   * Looks up specific playlists by ID (50 IDs per request) without listing everything
+   * IDs that don't come back are deleted, private to someone else, or invalid
+   */
+  async getPlaylistsByIds(playlistIds: string[]): Promise<PlaylistInfo[]> {
+    if (playlistIds.length === 0) return [];
+
+    try {
+      const playlists: PlaylistInfo[] = [];
+
+      for (const chunk of this.chunkArray(playlistIds, 50)) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (item: any): PlaylistInfo => ({
-          id: item.id,
-          title: item.snippet.title,
-          description: item.description,
-          thumbnailUrl:
-            item.snippet.thumbnails?.high?.url ||
-            item.snippet.thumbnails?.default?.url ||
-            "",
-          videoCount: item.contentDetails?.itemCount || 0,
-          privacy: item.status?.privacyStatus || "private",
-        })
-      );
+        const response = await this.makeApiRequest<any>("playlists", {
+          part: "snippet,contentDetails,status",
+          id: chunk.join(","),
+          maxResults: "50",
+        });
+
+        if (response.items) {
+          playlists.push(...response.items.map(this.toPlaylistInfo));
+        }
+      }
+
+      return playlists;
     } catch (error) {
-      console.error("Failed to fetch user playlists", error);
+      console.error("Failed to fetch playlists by ID", error);
       throw error;
     }
   }
 
+  /**
+   * Resolves user input to a playlist: a playlist URL, a list= ID, a channel URL or an @handle
+   * Channels resolve to their uploads playlist (UU...)
+   */
+  async resolvePlaylistSource(input: string): Promise<PlaylistInfo> {
+    const trimmed = input.trim();
+    let playlistId: string | null = null;
+
+    // Bare IDs and handles
+    if (/^(PL|UU|OL|FL|RD)[\w-]{10,}$/.test(trimmed)) {
+      playlistId = trimmed;
+    } else if (/^UC[\w-]{22}$/.test(trimmed)) {
+      playlistId = `UU${trimmed.substring(2)}`;
+    } else if (trimmed.startsWith("@")) {
+      playlistId = await this.getChannelUploadsPlaylistId({ forHandle: trimmed });
+    } else {
+      // Anything else has to be a YouTube URL (protocol optional)
+      let url: URL;
+      try {
+        url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+      } catch {
+        throw new Error(`Not a playlist, channel or handle: ${trimmed}`);
+      }
+
+      if (!/(^|\.)youtube\.com$/.test(url.hostname) && url.hostname !== "youtu.be") {
+        throw new Error(`Not a YouTube URL: ${trimmed}`);
+      }
+
+      const [firstSegment, secondSegment] = url.pathname.split("/").filter(Boolean);
+
+      if (url.searchParams.get("list")) {
+        playlistId = url.searchParams.get("list");
+      } else if (firstSegment === "channel" && secondSegment?.startsWith("UC")) {
+        playlistId = `UU${secondSegment.substring(2)}`;
+      } else if (firstSegment?.startsWith("@")) {
+        playlistId = await this.getChannelUploadsPlaylistId({
+          forHandle: decodeURIComponent(firstSegment),
+        });
+      } else if (firstSegment === "user" && secondSegment) {
+        playlistId = await this.getChannelUploadsPlaylistId({ forUsername: secondSegment });
+      } else if (firstSegment === "c" && secondSegment) {
+        // Legacy custom URLs can't be looked up directly, most match the channel's handle
+        playlistId = await this.getChannelUploadsPlaylistId({ forHandle: `@${secondSegment}` });
+      }
+    }
+
+    if (!playlistId) {
+      throw new Error(`Couldn't find a playlist or channel in: ${trimmed}`);
+    }
+
+    const [playlist] = await this.getPlaylistsByIds([playlistId]);
+    if (!playlist) {
+      throw new PlaylistNotFoundError(
+        `Playlist ${playlistId} not found or private`,
+        404,
+        "playlistNotFound"
+      );
+    }
+
+    return playlist;
+  }
+
+  /**
+   * Looks up a channel by handle or legacy username and returns its uploads playlist ID
+   */
+  private async getChannelUploadsPlaylistId(
+    lookup: { forHandle: string } | { forUsername: string }
+  ): Promise<string> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response = await this.makeApiRequest<any>("channels", {
+      part: "contentDetails",
+      ...lookup,
+    });
+
+    const uploadsPlaylistId =
+      response.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+
+    if (!uploadsPlaylistId) {
+      throw new PlaylistNotFoundError(
+        `No channel found for ${Object.values(lookup)[0]}`,
+        404,
+        "channelNotFound"
+      );
+    }
+
+    return uploadsPlaylistId;
+  }
+
+  /**
+   * Transforms a raw playlists resource into PlaylistInfo format
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private toPlaylistInfo(item: any): PlaylistInfo {
+    return {
+      id: item.id,
+      title: item.snippet.title,
+      description: item.snippet.description || "",
+      thumbnailUrl:
+        item.snippet.thumbnails?.high?.url ||
+        item.snippet.thumbnails?.default?.url ||
+        "",
+      videoCount: item.contentDetails?.itemCount || 0,
+      privacy: item.status?.privacyStatus || "private",
+    };
+  }
+
   // DO I NEED THIS FUNCTION???
   /** Fetches YouTube video categories and caches them
    * Categories are region-specific, so default is US
@@ -275,8 +724,12 @@ class YoutubeApiService {
 
   /**
    * Fetches detailed information for multiple videos
+   * The ETag of each chunk is added to chunkETags when given
    */
-  async getVideoDetails(videoIds: string[]): Promise<YoutubeVideoDetails[]> {
+  async getVideoDetails(
+    videoIds: string[],
+    chunkETags?: VideoChunkETag[]
+  ): Promise<YoutubeVideoDetails[]> {
     if (videoIds.length === 0) return [];
 
     try {
@@ -285,12 +738,16 @@ class YoutubeApiService {
       const allVideoDetails: YoutubeVideoDetails[] = [];
 
       for (const chunk of chunks) {
+        await this.ensureQuotaBudget();
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const response = await this.makeApiRequest<any>("videos", {
-          part: "snippet,contentDetails,statistics",
+          part: VIDEO_DETAIL_PARTS,
           id: chunk.join(","),
         });
 
+        chunkETags?.push({ videoIds: chunk, etag: response.etag });
+
         if (response.items) {
           allVideoDetails.push(...response.items);
         }
@@ -303,6 +760,45 @@ class YoutubeApiService {
     }
   }
 
+  /**
+   * Builds Video objects for bare video IDs (sources that aren't API playlists, e.g. scraped Watch Later)
+   * Order of the IDs is kept, unavailable videos are skipped
+   */
+  async getVideosByIds(videoIds: string[]): Promise<Video[]> {
+    if (videoIds.length === 0) return [];
+
+    const videoDetails = await this.getVideoDetails(videoIds);
+    await this.ensureCategoriesLoaded();
+
+    const placeholderItems = videoIds.map((videoId, index) =>
+      this.toPlaceholderItem(videoId, { position: index })
+    );
+
+    return this.transformToVideoInterface(placeholderItems, videoDetails);
+  }
+
+  /**
+   * Playlist item for a video known only by ID
+   * transformToVideoInterface takes everything else from the video details
+   */
+  private toPlaceholderItem(
+    videoId: string,
+    fields: Pick<Video, "playlistItemId" | "addedAt" | "position"> = {}
+  ): YoutubePlaylistItem {
+    return {
+      ...(fields.playlistItemId && { id: fields.playlistItemId }),
+      snippet: {
+        resourceId: { videoId },
+        title: "",
+        description: "",
+        thumbnails: { high: { url: "" } },
+        channelTitle: "",
+        publishedAt: fields.addedAt || "",
+        position: fields.position,
+      },
+    };
+  }
+
   /**
    * Ensures categories are loaded exactly once per API service instance
   */
@@ -329,12 +825,14 @@ class YoutubeApiService {
       // Handle multi-page fetching for counts > 50
       // eslint-disable-next-line prefer-const
       let allPlaylistItems: YoutubePlaylistItem[] = [];
+      const pageETags: PlaylistPageETag[] = [];
       let nextPageToken: string | undefined;
       let fetchedCount = 0;
 
       while (fetchedCount < maxResults) {
         const remainingNeeded = maxResults - fetchedCount;
         const batchSize = Math.min(remainingNeeded, 50); // Max 50 per API call
+        await this.ensureQuotaBudget();
         
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const response = await this.makeApiRequest<any>("playlistItems", {
@@ -346,6 +844,7 @@ class YoutubeApiService {
 
         if (!response.items?.length) break;
         
+        pageETags.push({ pageToken: nextPageToken, maxResults: batchSize, etag: response.etag });
         allPlaylistItems.push(...response.items);
         fetchedCount += response.items.length;
         nextPageToken = response.nextPageToken;
@@ -353,10 +852,14 @@ class YoutubeApiService {
         if (!nextPageToken) break; // No more pages
       }
 
+      this.playlistPageETags.set(playlistId, pageETags);
+
       if (allPlaylistItems.length === 0) return [];
 
       const videoIds = allPlaylistItems.map(item => item.snippet.resourceId.videoId);
-      const videoDetails = await this.getVideoDetails(videoIds);
+      const videoETags: VideoChunkETag[] = [];
+      const videoDetails = await this.getVideoDetails(videoIds, videoETags);
+      this.videoChunkETags.set(playlistId, videoETags);
       
       await this.ensureCategoriesLoaded();
 
@@ -379,6 +882,8 @@ class YoutubeApiService {
    */
   private async getAllPlaylistVideos(playlistId: string): Promise<Video[]> {
     const allVideos: Video[] = [];
+    const pageETags: PlaylistPageETag[] = [];
+    const videoETags: VideoChunkETag[] = [];
     let nextPageToken: string | undefined;
     let pageCount = 0;
     const maxPages = 20; // Safety limit (20 pages × 50 = 1000 videos max)
@@ -391,6 +896,7 @@ class YoutubeApiService {
     do {
       try {
         console.log(`📄 Fetching page ${pageCount + 1}${nextPageToken ? ` (token: ${nextPageToken.substring(0, 10)}...)` : ''}`);
+        await this.ensureQuotaBudget();
         
         // Get playlist items for this page
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -400,6 +906,8 @@ class YoutubeApiService {
           maxResults: "50",
           ...(nextPageToken && { pageToken: nextPageToken })
         });
+
+        pageETags.push({ pageToken: nextPageToken, maxResults: 50, etag: response.etag });
         
         if (response.items?.length > 0) {
           // Extract video IDs
@@ -410,7 +918,7 @@ class YoutubeApiService {
           
           if (videoIds.length > 0) {
             // Get detailed video info
-            const videoDetails = await this.getVideoDetails(videoIds);
+            const videoDetails = await this.getVideoDetails(videoIds, videoETags);
             
             // Transform to Video interface
             const transformedVideos = await this.transformToVideoInterface(response.items, videoDetails);
@@ -432,16 +940,146 @@ class YoutubeApiService {
         
       } catch (error) {
         console.error(`❌ Error fetching page ${pageCount + 1}:`, error);
+
+        // Nothing to fall back on, the playlist itself is gone or the budget ran out - let the caller decide
+        if (
+          allVideos.length === 0 ||
+          error instanceof PlaylistNotFoundError ||
+          error instanceof QuotaExceededError
+        ) {
+          throw error;
+        }
+
+        // Partial results can't be revalidated later, so don't keep their ETags
+        pageETags.length = 0;
+        videoETags.length = 0;
         // Break the loop on error - return partial results rather than fail completely
         break;
       }
       
     } while (nextPageToken && pageCount < maxPages);
+
+    this.playlistPageETags.set(playlistId, pageETags);
+    this.videoChunkETags.set(playlistId, videoETags);
     
     console.log(`✅ Pagination complete: ${allVideos.length} videos from ${pageCount} pages`);
     return allVideos;
   }
 
+  /**
+   * Returns the ETags of the playlistItems pages seen during the last fetch of a playlist
+   */
+  getPlaylistETags(playlistId: string): PlaylistPageETag[] {
+    return this.playlistPageETags.get(playlistId) || [];
+  }
+
+  /**
+   * Returns the ETags of the videos chunks seen during the last fetch or refresh of a playlist
+   */
+  getVideoETags(playlistId: string): VideoChunkETag[] {
+    return this.videoChunkETags.get(playlistId) || [];
+  }
+
+  /**
+   * Re-requests every stored playlistItems page with If-None-Match.
+   * Only true when YouTube answers 304 for all of them, i.e. the cached videos are still valid
+   */
+  async isPlaylistUnchanged(
+    playlistId: string,
+    pageETags: PlaylistPageETag[]
+  ): Promise<boolean> {
+    if (pageETags.length === 0) return false;
+
+    for (const page of pageETags) {
+      await this.ensureQuotaBudget();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await this.makeConditionalApiRequest<any>(
+        "playlistItems",
+        {
+          part: "snippet",
+          playlistId: playlistId,
+          maxResults: page.maxResults.toString(),
+          ...(page.pageToken && { pageToken: page.pageToken }),
+        },
+        page.etag
+      );
+
+      if (response !== null) {
+        console.log(`🏷️ Playlist ${playlistId} changed (page ${page.pageToken || "1"})`);
+        return false;
+      }
+    }
+
+    console.log(`🏷️ Playlist ${playlistId} unchanged (${pageETags.length} pages returned 304)`);
+    return true;
+  }
+
+  /**
+   * Refreshes the details (views, live status, ...) of the cached videos of an unchanged playlist
+   * Each stored videos chunk is re-requested with If-None-Match and only chunks that changed are rebuilt;
+   * videos no stored chunk covers are fetched again in full. Videos that became unavailable drop out
+   */
+  async refreshVideoDetails(
+    playlistId: string,
+    videos: Video[],
+    chunkETags: VideoChunkETag[]
+  ): Promise<Video[]> {
+    const cachedById = new Map(videos.map((video) => [video.contentDetails.videoId, video]));
+    const refreshedById = new Map<string, Video>();
+    const newChunkETags: VideoChunkETag[] = [];
+    const changedIds: string[] = [];
+    const changedDetails: YoutubeVideoDetails[] = [];
+
+    for (const chunk of chunkETags) {
+      await this.ensureQuotaBudget();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await this.makeConditionalApiRequest<any>(
+        "videos",
+        { part: VIDEO_DETAIL_PARTS, id: chunk.videoIds.join(",") },
+        chunk.etag
+      );
+
+      if (response === null) {
+        chunk.videoIds.forEach((videoId) => {
+          const cachedVideo = cachedById.get(videoId);
+          if (cachedVideo) refreshedById.set(videoId, cachedVideo);
+        });
+        newChunkETags.push(chunk);
+      } else {
+        changedIds.push(...chunk.videoIds);
+        changedDetails.push(...(response.items || []));
+        newChunkETags.push({ videoIds: chunk.videoIds, etag: response.etag });
+      }
+    }
+
+    const coveredIds = new Set(chunkETags.flatMap((chunk) => chunk.videoIds));
+    const uncoveredIds = [...cachedById.keys()].filter((videoId) => !coveredIds.has(videoId));
+    if (uncoveredIds.length > 0) {
+      changedIds.push(...uncoveredIds);
+      changedDetails.push(...(await this.getVideoDetails(uncoveredIds, newChunkETags)));
+    }
+
+    if (changedIds.length > 0) {
+      await this.ensureCategoriesLoaded();
+
+      // Playlist fields (item ID, added date, position) aren't part of the details, keep the cached ones
+      const placeholderItems = changedIds.map((videoId) =>
+        this.toPlaceholderItem(videoId, cachedById.get(videoId))
+      );
+      const changedVideos = await this.transformToVideoInterface(placeholderItems, changedDetails);
+      changedVideos.forEach((video) => refreshedById.set(video.contentDetails.videoId, video));
+    }
+
+    this.videoChunkETags.set(playlistId, newChunkETags);
+    console.log(`🏷️ Playlist ${playlistId}: refreshed details of ${changedIds.length}/${cachedById.size} videos`);
+
+    return videos
+      .map((video) => refreshedById.get(video.contentDetails.videoId))
+      .filter((video): video is Video => video !== undefined);
+  }
+
   /**
    * Transforms YouTube API data into video interface
    */
@@ -474,9 +1112,13 @@ class YoutubeApiService {
         contentDetails: {
           videoId: videoId,
         },
+        ...(item.id && { playlistItemId: item.id }),
+        ...(item.snippet.publishedAt && { addedAt: item.snippet.publishedAt }),
+        ...(item.snippet.position !== undefined && { position: item.snippet.position }),
         snippet: {
           title: details.snippet.title,
           videoOwnerChannelTitle: details.snippet.channelTitle,
+          videoOwnerChannelId: details.snippet.channelId,
           publishedAt: details.snippet.publishedAt,
           categoryId: details.snippet.categoryId,
           categoryName: categoryName,
@@ -491,6 +1133,14 @@ class YoutubeApiService {
         viewCount: parseInt(details.statistics.viewCount) || 0,
         likeCount: parseInt(details.statistics.likeCount) || 0,        // NEW
         commentCount: parseInt(details.statistics.commentCount) || 0, // NEW
+        ...this.getLiveDetails(details),
+        definition: details.contentDetails.definition,
+        hasCaptions: details.contentDetails.caption === "true",
+        dimension: details.contentDetails.dimension,
+        defaultAudioLanguage: details.snippet.defaultAudioLanguage,
+        defaultLanguage: details.snippet.defaultLanguage,
+        tags: details.snippet.tags || [],
+        topics: (details.topicDetails?.topicCategories || []).map((topicUrl) => this.getTopicName(topicUrl)),
       };
     })
   );
@@ -498,6 +1148,42 @@ class YoutubeApiService {
   return transformedVideos.filter((video): video is Video => video !== null);
 }
 
+  /**
+   * Turns a topic category URL into its readable name (the Wikipedia article title)
+   */
+  private getTopicName(topicUrl: string): string {
+    const articleTitle = topicUrl.substring(topicUrl.lastIndexOf("/") + 1);
+    try {
+      return decodeURIComponent(articleTitle).replace(/_/g, " ");
+    } catch {
+      return articleTitle.replace(/_/g, " ");
+    }
+  }
+
+  /**
+   * Picks the live/upcoming/premiere fields for a video
+   * Streams report a zero duration (P0D) until they end, premieres already have the uploaded video's length
+   */
+  private getLiveDetails(
+    details: YoutubeVideoDetails
+  ): Pick<Video, "liveStatus" | "isPremiere" | "scheduledStartTime" | "concurrentViewers"> {
+    const liveStatus = details.snippet.liveBroadcastContent || "none";
+    if (liveStatus === "none") {
+      return { liveStatus: "none", isPremiere: false };
+    }
+
+    const streaming = details.liveStreamingDetails;
+    const duration = details.contentDetails.duration;
+    return {
+      liveStatus: liveStatus,
+      isPremiere: !!duration && !["P0D", "PT0S"].includes(duration),
+      scheduledStartTime: streaming?.scheduledStartTime,
+      concurrentViewers: streaming?.concurrentViewers
+        ? parseInt(streaming.concurrentViewers)
+        : undefined,
+    };
+  }
+
   // REVIEW METHOD
   /**
    * Utility method to chunk array (for API request batching)
@@ -521,10 +1207,150 @@ class YoutubeApiService {
       return await this.getCompletePlaylistData("LL", maxResults);
     } catch (error) {
       console.error("Liked Videos fetch failed:", error);
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches avatar, handle and subscriber count for channels, 50 per request
+   * Channels that no longer exist are left out
+   */
+  async getChannelDetails(channelIds: string[]): Promise<ChannelDetails[]> {
+    const channels: ChannelDetails[] = [];
+
+    for (const chunk of this.chunkArray(channelIds, 50)) {
+      await this.ensureQuotaBudget();
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await this.makeApiRequest<any>("channels", {
+        part: "snippet,statistics",
+        id: chunk.join(","),
+        maxResults: "50",
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (response.items || []).forEach((item: any) => {
+        channels.push({
+          channelId: item.id,
+          title: item.snippet.title,
+          handle: item.snippet.customUrl || "",
+          avatarUrl:
+            item.snippet.thumbnails?.default?.url ||
+            item.snippet.thumbnails?.medium?.url ||
+            "",
+          subscriberCount: item.statistics?.hiddenSubscriberCount
+            ? null
+            : parseInt(item.statistics?.subscriberCount) || 0,
+        });
+      });
+    }
+
+    return channels;
+  }
+
+  /**
+   * Fetches every channel the user is subscribed to
+   */
+  async getSubscriptions(): Promise<SubscriptionChannel[]> {
+    const channels: SubscriptionChannel[] = [];
+    let nextPageToken: string | undefined;
+
+    try {
+      do {
+        await this.ensureQuotaBudget();
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const response = await this.makeApiRequest<any>("subscriptions", {
+          part: "snippet",
+          mine: "true",
+          maxResults: "50",
+          order: "alphabetical",
+          ...(nextPageToken && { pageToken: nextPageToken }),
+        });
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (response.items || []).forEach((item: any) => {
+          channels.push({
+            channelId: item.snippet.resourceId.channelId,
+            title: item.snippet.title,
+            thumbnailUrl: item.snippet.thumbnails?.default?.url || "",
+          });
+        });
+
+        nextPageToken = response.nextPageToken;
+      } while (nextPageToken);
+
+      return channels;
+    } catch (error) {
+      console.error("Failed to fetch subscriptions", error);
+      throw error;
     }
   }
+
+  /**
+   * Builds a "latest uploads" feed from the uploads playlists of the given channels
+   * Takes the newest few uploads per channel, then keeps the newest overall
+   */
+  async getSubscriptionFeed(
+    channelIds: string[],
+    maxResults: number | 'all' = 50,
+    uploadsPerChannel: number = 5
+  ): Promise<Video[]> {
+    const uploads: YoutubePlaylistItem[] = [];
+
+    for (const channelId of channelIds) {
+      // A channel's uploads playlist ID is its channel ID with UC swapped for UU
+      const uploadsPlaylistId = `UU${channelId.substring(2)}`;
+
+      // One request per channel adds up with hundreds of subscriptions
+      await this.ensureQuotaBudget();
+
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const response = await this.makeApiRequest<any>("playlistItems", {
+          part: "snippet",
+          playlistId: uploadsPlaylistId,
+          maxResults: uploadsPerChannel.toString(),
+        });
+
+        uploads.push(...(response.items || []));
+      } catch (error) {
+        // Channels without public uploads have no uploads playlist, skip them
+        if (error instanceof PlaylistNotFoundError) {
+          console.warn(`No uploads playlist for channel ${channelId}, skipping`);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // Newest uploads first, across all channels
+    uploads.sort(
+      (a, b) =>
+        new Date(b.snippet.publishedAt).getTime() -
+        new Date(a.snippet.publishedAt).getTime()
+    );
+    const latestUploads = maxResults === 'all' ? uploads : uploads.slice(0, maxResults);
+
+    if (latestUploads.length === 0) return [];
+
+    const videoDetails = await this.getVideoDetails(
+      latestUploads.map((item) => item.snippet.resourceId.videoId)
+    );
+
+    await this.ensureCategoriesLoaded();
+
+    return await this.transformToVideoInterface(latestUploads, videoDetails);
+  }
 }
 
 export { YoutubeApiService };
-export type { PlaylistInfo, Video };
+export type {
+  PlaylistInfo,
+  Video,
+  ChannelDetails,
+  PlaylistPageETag,
+  SubscriptionChannel,
+  VideoChunkETag,
+  YoutubeApiServiceOptions,
+};
@@ -58,39 +58,135 @@ const QUOTA_COSTS = {
   'playlists': 1,
   'playlistItems': 1, 
   'videos': 1,
-  'videoCategories': 1
+  'videoCategories': 1,
+  'subscriptions': 1,
+  'channels': 1,
+  // write operations
+  'playlistItems.insert': 50,
+  'playlistItems.update': 50,
+  'playlistItems.delete': 50,
+  'playlists.insert': 50
 };
 
 function getQuotaCost(endpoint: string): number {
   return QUOTA_COSTS[endpoint as keyof typeof QUOTA_COSTS] || 1;
 }
 
-// Track navigation state to detect SPA changes
-let lastUrl = {};
+// Daily quota ledger settings
+const QUOTA_LEDGER_KEY = 'quotaLedger';
+const QUOTA_BUDGET_KEY = 'quotaBudget';
+const DEFAULT_QUOTA_BUDGET = 10000; // YouTube's default daily quota per project
+const QUOTA_CACHE_ONLY_THRESHOLD = 0.9; // switch content scripts to cache-only at 90% of budget
+
+// Serializes ledger writes so concurrent TRACK_API_CALL messages don't overwrite each other
+let quotaLedgerQueue = Promise.resolve();
+
+/**
+ * Returns the current day (YYYY-MM-DD) in Pacific time, when YouTube resets quota
+ */
+function getQuotaDay(date = new Date()) {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/Los_Angeles',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * Reads today's ledger and the configured budget, starting a new ledger after the Pacific midnight reset
+ */
+async function getQuotaLedger() {
+  const result = await chrome.storage.local.get([QUOTA_LEDGER_KEY, QUOTA_BUDGET_KEY]);
+  const today = getQuotaDay();
+  const storedLedger = result[QUOTA_LEDGER_KEY];
+
+  const ledger = storedLedger && storedLedger.day === today
+    ? storedLedger
+    : { day: today, used: 0, byEndpoint: {} };
+
+  return { ledger, budget: result[QUOTA_BUDGET_KEY] || DEFAULT_QUOTA_BUDGET };
+}
+
+/**
+ * Adds quota units for an endpoint to today's ledger
+ */
+function recordQuotaUsage(endpoint, units) {
+  quotaLedgerQueue = quotaLedgerQueue.then(async () => {
+    const { ledger } = await getQuotaLedger();
+
+    ledger.used += units;
+    ledger.byEndpoint[endpoint] = (ledger.byEndpoint[endpoint] || 0) + units;
+
+    await chrome.storage.local.set({ [QUOTA_LEDGER_KEY]: ledger });
+    console.log(`📒 Quota ledger: ${ledger.used} units used on ${ledger.day}`);
+  }).catch((error) => {
+    console.error('Failed to update quota ledger:', error);
+  });
+
+  return quotaLedgerQueue;
+}
 
 /**
- * Checks if the URL is the YouTube homepage
+ * Summarizes today's usage against the budget for popup and content scripts
  */
-function isYouTubeHomepage(url) {
-  if (!url || !url.startsWith('https://www.youtube.com/')) {
+async function getQuotaStatus() {
+  await quotaLedgerQueue;
+  const { ledger, budget } = await getQuotaLedger();
+
+  return {
+    day: ledger.day,
+    used: ledger.used,
+    budget: budget,
+    remaining: Math.max(0, budget - ledger.used),
+    cacheOnly: ledger.used >= budget * QUOTA_CACHE_ONLY_THRESHOLD,
+    byEndpoint: ledger.byEndpoint
+  };
+}
+
+/**
+ * Checks if the URL is a YouTube page; the content script follows SPA navigation from there
+ */
+function isYouTubePage(url) {
+  if (!url) {
     return false;
   }
-  
+
   try {
-    const urlObj = new URL(url);
-    return urlObj.pathname === '/';
+    return new URL(url).hostname === 'www.youtube.com';
   } catch (error) {
     console.error('Error parsing URL:', error);
     return false;
   }
 }
 
+/**
+ * Asks the tab's content script for a PING response
+ */
+function isContentScriptLoaded(tabId) {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, { type: 'PING' }, (response) => {
+      // No listener in the tab yet, which is the expected case on a fresh page load
+      if (chrome.runtime.lastError) {
+        resolve(false);
+        return;
+      }
+      resolve(!!response?.success);
+    });
+  });
+}
+
 /**
  * Injects content script and CSS into the specified tab
  */
 async function injectPlaylistContent(tabId) {
   try {
-    // Always inject content script - let the content script handle duplicate prevention
+    // YouTube's SPA navigations can also report 'complete', skip tabs that already run the script
+    if (await isContentScriptLoaded(tabId)) {
+      console.log(`Content script already running in tab ${tabId}`);
+      return;
+    }
+
     console.log(`Injecting content script into tab ${tabId}`);
 
     // Inject the content script
@@ -139,6 +235,22 @@ const getValidToken = async () => {
   });
 };
 
+/**
+ * Drops a token the API rejected and gets a fresh one without prompting the user
+ */
+const refreshToken = async (expiredToken) => {
+  if (expiredToken) {
+    await new Promise((resolve) => {
+      chrome.identity.removeCachedAuthToken({ token: expiredToken }, () => {
+        console.log("Removed rejected token from cache");
+        resolve();
+      });
+    });
+  }
+
+  return getValidToken();
+};
+
 /**
  * Handles tab updates (page loads)
  */
@@ -148,13 +260,10 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
     return;
   }
 
-  // Check if it's YouTube homepage
-  if (isYouTubeHomepage(tab.url)) {
-    console.log('YouTube homepage detected via tab update');
+  // Inject once per page load, the content script handles YouTube's SPA navigation itself
+  if (isYouTubePage(tab.url)) {
+    console.log('YouTube page load detected via tab update');
     await injectPlaylistContent(tabId);
-    
-    // Update our URL tracking
-    lastUrl[tabId] = tab.url;
   }
 });
 
@@ -166,10 +275,13 @@ chrome.storage.onChanged.addListener(async (changes, namespace) => {
   console.log("📦 Namespace:", namespace);
   console.log("📦 Changes:", changes);
   
-  if (namespace === 'local' && changes.selectedPlaylists) {
-    console.log("📦 Selected playlists changed!");
-    console.log("📦 Old value:", changes.selectedPlaylists.oldValue);
-    console.log("📦 New value:", changes.selectedPlaylists.newValue);
+  // The homepage placement is saved on its own, but changes what's mounted just the same
+  const shelvesChange = changes.selectedPlaylists || changes.shelfPlacement;
+
+  if (namespace === 'local' && shelvesChange) {
+    console.log(`📦 ${changes.selectedPlaylists ? 'Selected playlists' : 'Shelf placement'} changed!`);
+    console.log("📦 Old value:", shelvesChange.oldValue);
+    console.log("📦 New value:", shelvesChange.newValue);
     
     console.log("🔍 Getting all YouTube tabs...");
     
@@ -201,47 +313,12 @@ chrome.storage.onChanged.addListener(async (changes, namespace) => {
       console.error("💥 Error getting tabs:", error);
     }
   } else {
-    console.log("📦 Not a selectedPlaylists change, ignoring");
+    console.log("📦 Not a selectedPlaylists or shelfPlacement change, ignoring");
   }
 });
 
 console.log("✅ Background script storage listener registered");
 
-/**
- * Handles SPA navigation within YouTube
- * This catches navigation that doesn't trigger a full page reload
- */
-chrome.webNavigation.onHistoryStateUpdated.addListener(async (details) => {
-  // Only process main frame (not iframes)
-  if (details.frameId !== 0) {
-    return;
-  }
-
-  const { tabId, url } = details;
-  
-  // Check if we're navigating TO the homepage
-  if (isYouTubeHomepage(url)) {
-    // Only inject if we're coming from a different page
-    const previousUrl = lastUrl[tabId];
-    if (!previousUrl || !isYouTubeHomepage(previousUrl)) {
-      console.log('YouTube homepage detected via SPA navigation');
-      await injectPlaylistContent(tabId);
-    }
-  }
-  
-  // Update URL tracking
-  lastUrl[tabId] = url;
-}, {
-  url: [{ hostContains: 'youtube.com' }]
-});
-
-/**
- * Clean up URL tracking when tabs are closed
- */
-chrome.tabs.onRemoved.addListener((tabId) => {
-  delete lastUrl[tabId];
-});
-
 /**
  * Message handler for communication with popup and content scripts
  */
@@ -261,6 +338,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           {const token = await getValidToken();
           return { token: token }};
 
+        case 'REFRESH_AUTH_TOKEN':
+          console.log('🔧 DEBUG: Executing REFRESH_AUTH_TOKEN case');
+          {const token = await refreshToken(message.data?.token);
+          return { token: token }};
+
         case 'CLEAR_AUTH_TOKEN':
           console.log('🔧 DEBUG: Executing CLEAR_AUTH_TOKEN case');
           return new Promise((resolve) => {
@@ -282,6 +364,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
             const quotaUnits = getQuotaCost(endpoint);
             console.log('🔧 DEBUG: Quota units calculated:', quotaUnits);
+
+            // Every request costs quota, even failed ones
+            await recordQuotaUsage(endpoint, quotaUnits);
+
             console.log('🔧 DEBUG: About to call trackEvent');
             
             // Clean parameters for GA4 compatibility
@@ -306,6 +392,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return { success: false, error: error.message };
           }
 
+        case 'GET_QUOTA_STATUS':
+          console.log('🔧 DEBUG: Executing GET_QUOTA_STATUS case');
+          return await getQuotaStatus();
+
         case 'TRACK_CACHE_PERFORMANCE':
           console.log('🔧 DEBUG: Executing TRACK_CACHE_PERFORMANCE case');
           try {
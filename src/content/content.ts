@@ -1,5 +1,25 @@
 // Enhanced content script with YouTube API integration and pagination
 import { YoutubeApiService } from "../api/YoutubeApiService";
+import type { ChannelDetails, PlaylistInfo, PlaylistPageETag, VideoChunkETag } from "../api/YoutubeApiService";
+import {
+  AuthError,
+  NetworkOfflineError,
+  PlaylistNotFoundError,
+  QuotaExceededError,
+  RateLimitedError,
+  YoutubeApiError,
+  toYoutubeApiError,
+} from "../api/YoutubeApiErrors";
+import { isWatchLaterPage, scrapeWatchLaterVideoIds } from "./watchLater";
+import { getWatchProgress, startWatchProgressTracking } from "./watchProgress";
+import type { WatchProgressMap } from "./watchProgress";
+import { getVideoStates, isHiddenState, updateVideoState } from "./videoStates";
+import type { VideoState, VideoStateMap } from "./videoStates";
+import { el, replaceChildren } from "./dom";
+import { parseDurationToSeconds } from "./duration";
+import { classifyShorts } from "./shorts";
+import { remountShelves, startPageLifecycle } from "./pageLifecycle";
+import type { ShelfPage } from "./pageLifecycle";
 
 // Prevent multiple script execution (TypeScript-friendly)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,6 +53,7 @@ interface Video {
   snippet: {
     title: string;
     videoOwnerChannelTitle: string;
+    videoOwnerChannelId?: string;
     publishedAt: string;
     categoryId: string;
     categoryName: string;
@@ -46,6 +67,21 @@ interface Video {
   viewCount: number;
   likeCount: number;        // NEW
   commentCount: number;     // NEW
+  playlistItemId?: string;  // needed to edit the playlist the video came from
+  liveStatus?: "live" | "upcoming" | "none";
+  isPremiere?: boolean;
+  scheduledStartTime?: string;
+  concurrentViewers?: number;
+  isShort?: boolean;
+  definition?: "hd" | "sd";
+  hasCaptions?: boolean;
+  dimension?: "2d" | "3d";
+  defaultAudioLanguage?: string;
+  defaultLanguage?: string;
+  tags?: string[];
+  topics?: string[];
+  addedAt?: string;   // when it was added to the playlist, snippet.publishedAt is the upload date
+  position?: number;
 }
 
 // Multi-playlist pagination state management
@@ -61,6 +97,8 @@ interface MultiPlaylistData {
   title: string;
   videos: Video[];
   paginationState: PlaylistPaginationState;
+  statusMessage?: string; // shown instead of videos when the playlist failed to load
+  hasCustomSort?: boolean; // shelf is sorted (not shuffled) differently from the playlist's own order
 }
 
 interface PlaylistFilterSortSettings {
@@ -73,9 +111,21 @@ interface PlaylistFilterSortSettings {
     channels: string[];
     categories: string[];  // Will store category names
     keywords: string;
+    liveContent?: 'all' | 'hide' | 'only'; // live streams, upcoming streams and premieres
+    shorts?: 'include' | 'exclude' | 'only';
+    captionedOnly?: boolean;
+    hdOnly?: boolean;
+    languages?: string[]; // language codes, "en" also matches "en-GB"
+    includeTags?: string[];
+    excludeTags?: string[];
+    includeTopics?: string[];
+    excludeTopics?: string[];
+    addedWithin?: 'all' | 'week' | 'month' | 'year';
+    hideWatched?: boolean; // uses the locally recorded watch progress
+    showHidden?: boolean; // keep videos marked watched, dismissed or snoozed from a tile
   };
   sort: {
-    by: 'default' | 'views' | 'likes' | 'comments' | 'date' | 'duration' | 'title' | 'channel' | 'random';
+    by: 'default' | 'views' | 'likes' | 'comments' | 'date' | 'added' | 'position' | 'duration' | 'title' | 'channel' | 'random';
     direction: 'asc' | 'desc';
   };
 }
@@ -86,33 +136,155 @@ interface CachedPlaylistData {
   lastFetched: number;
   totalVideos: number;
   title: string;
+  pageETags?: PlaylistPageETag[]; // ETags of the playlistItems pages, for conditional refetches
+  videoETags?: VideoChunkETag[]; // ETags of the videos chunks, for refreshing details of an unchanged playlist
+  videoFetchCount?: 50 | 200 | 'all'; // fetch setting the ETags were recorded with
+  cacheVersion?: number; // PLAYLIST_CACHE_VERSION the entry was written with, missing on the oldest entries
 }
 
 interface PlaylistCache {
   [playlistId: string]: CachedPlaylistData;
 }
 
+// Which subscribed channels feed the virtual SUBSCRIPTIONS source
+interface SubscriptionChannelFilter {
+  mode: 'all' | 'include' | 'exclude';
+  channelIds: string[];
+}
+
+// A selected playlist that couldn't be fetched and has no cached copy to fall back on
+interface PlaylistFetchFailure {
+  playlistId: string;
+  title: string;
+  error: YoutubeApiError;
+}
+
+interface PlaylistFetchResult {
+  playlists: CachedPlaylistData[];
+  failures: PlaylistFetchFailure[];
+}
+
+// A shelf order being written back to YouTube, kept in storage so it can be resumed
+interface ReorderJob {
+  playlistId: string;
+  items: { playlistItemId: string; videoId: string }[]; // desired order of the top of the playlist
+  startedAt: number;
+}
+
+// One playlistItems.update call of a reorder
+interface ReorderStep {
+  playlistItemId: string;
+  videoId: string;
+  title: string;
+  fromPosition: number;
+  toPosition: number;
+}
+
+// Channel details cached separately from playlists, they change far less often
+interface CachedChannelDetails {
+  details: ChannelDetails | null; // null when the API didn't return the channel (deleted or terminated)
+  lastFetched: number;
+}
+
+// Where the shelves go in the homepage grid, set in the popup
+interface ShelfPlacement {
+  position: 'top' | 'afterRow' | 'belowShorts' | 'bottom';
+  row: number; // used by 'afterRow'
+}
+
+// Daily quota ledger summary returned by the background (GET_QUOTA_STATUS)
+interface QuotaStatus {
+  day: string;
+  used: number;
+  budget: number;
+  remaining: number;
+  cacheOnly: boolean;
+}
+
+// Sources that aren't looked up with playlists.list
+const SPECIAL_SOURCE_IDS = ["LL", "SUBSCRIPTIONS", "WL"];
+
+// Built locally from watch progress, never fetched or cached
+const CONTINUE_WATCHING_ID = "CONTINUE_WATCHING";
+
+// Container each grid-style page's shelves are inserted into, scoped to the page (YouTube keeps old pages hidden in the DOM)
+const SHELF_CONTAINER_SELECTORS: Record<Exclude<ShelfPage, "watch">, string[]> = {
+  home: [
+    'ytd-browse[page-subtype="home"] ytd-rich-grid-renderer #contents',
+    "ytd-rich-grid-renderer #contents",
+    "ytd-two-column-browse-results-renderer #primary #contents",
+    "ytd-browse #primary #contents",
+    "#contents.ytd-rich-grid-renderer",
+    "#primary #contents"
+  ],
+  subscriptions: ['ytd-browse[page-subtype="subscriptions"] ytd-rich-grid-renderer #contents'],
+  search: ["ytd-search ytd-item-section-renderer #contents"],
+};
+
+// After the first row (or above a Shorts section right after it), like before placement was configurable
+const DEFAULT_SHELF_PLACEMENT: ShelfPlacement = { position: 'afterRow', row: 1 };
+
+// Elements YouTube uses for the Shorts section in the grid
+const SHORTS_SECTION_SELECTORS = [
+  "ytd-rich-section-renderer[is-shorts]",
+  "ytd-reel-shelf-renderer",
+  'ytd-rich-shelf-renderer:has([title*="Shorts"])',
+  '[aria-label*="Shorts"]'
+];
+
+// Videos in the watch page's "Up next from your playlists" list
+const UP_NEXT_LIMIT = 10;
+
+// Cache keys of sources whose items can't be edited with playlistItems (Watch Later is read-only in the API)
+const READ_ONLY_SOURCE_KEYS = ["LIKED_VIDEOS", "WATCH_LATER", "SUBSCRIPTIONS", CONTINUE_WATCHING_ID];
+
+// Storage key for interrupted "apply order" runs, keyed by playlist ID
+const REORDER_JOBS_KEY = 'playlistReorderJobs';
+const PLAYLIST_WRITE_COST = 50; // quota units per playlistItems insert/update/delete
+
+// Channel avatars/handles/subscriber counts
+const CHANNEL_CACHE_KEY = 'channelDetailsCache';
+const CHANNEL_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
 // Cache settings
 const CACHE_DURATION = 60 * 60 * 1000; // 30 minutes in milliseconds
 const CACHE_KEY = 'youtubePlaylistCache';
+// Bump whenever cached Video fields change, entries written with another version are refetched
+// (2: live status, Shorts, captions/definition, tags/topics, added date/position, channel ID)
+const PLAYLIST_CACHE_VERSION = 2;
 
 
 // Global state for all playlists
 let playlistsData: MultiPlaylistData[] = [];
 
+// Channel details for the videos on the page, by channel ID
+let channelDetailsById = new Map<string, ChannelDetails>();
+
+// Locally recorded watch progress, by video ID
+let watchProgressById: WatchProgressMap = {};
+
+// Watched/dismissed/snoozed marks set from tile menus, loaded with the shelves
+let videoStatesById: VideoStateMap = {};
+
+// Selected sources added by URL that the user doesn't own, loaded with the shelves
+let readOnlyCustomSourceIds = new Set<string>();
+
+// Page the current shelves are mounted on, it decides layout and page size
+let shelfPage: ShelfPage = "home";
+
 /**
  * Helper function to format YouTube's duration string.
+ * Returns an empty string for zero durations (live and upcoming streams report "P0D")
  */
 function formatDuration(duration: string): string {
-  const match = duration.match(/PT(\d+H)?(\d+M)?(\d+S)?/)!;
-  match.shift();
-  const [hours, minutes, seconds] = match.map((part) =>
-    part ? part.replace(/\D/, "") : "0"
-  );
+  const totalSeconds = parseDurationToSeconds(duration);
+  if (totalSeconds === 0) {
+    return "";
+  }
 
-  const h = parseInt(hours, 10);
-  const m = parseInt(minutes, 10);
-  const s = parseInt(seconds, 10);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
 
   if (h > 0) {
     return `${h}:${m.toString().padStart(2, "0")}:${s
@@ -122,25 +294,6 @@ function formatDuration(duration: string): string {
   return `${m}:${s.toString().padStart(2, "0")}`;
 }
 
-/**
- * Parse YouTube duration string to seconds
- */
-function parseDurationToSeconds(duration: string): number {
-  try {
-    const match = duration.match(/PT(\d+H)?(\d+M)?(\d+S)?/);
-    if (!match) return 0;
-    
-    const hours = match[1] ? parseInt(match[1].replace('H', '')) : 0;
-    const minutes = match[2] ? parseInt(match[2].replace('M', '')) : 0;
-    const seconds = match[3] ? parseInt(match[3].replace('S', '')) : 0;
-    
-    return hours * 3600 + minutes * 60 + seconds;
-  } catch (error) {
-    console.warn("Error parsing duration:", duration, error);
-    return 0;
-  }
-}
-
 /**
  * Helper function to format view count like YouTube (with better error handling)
  */
@@ -204,6 +357,148 @@ function formatPublishDate(publishedAt: string): string {
   }
 }
 
+/**
+ * Formats a scheduled start like YouTube's upcoming badges ("Today, 18:00", "Fri, 20:00", "12 Mar")
+ */
+function formatScheduledTime(scheduledStartTime: string): string {
+  const start = new Date(scheduledStartTime);
+  if (isNaN(start.getTime())) {
+    return "soon";
+  }
+
+  const time = start.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  const daysAway = (start.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+
+  if (start.toDateString() === new Date().toDateString()) {
+    return `today, ${time}`;
+  }
+  if (daysAway < 6) {
+    return `${start.toLocaleDateString(undefined, { weekday: "short" })}, ${time}`;
+  }
+  return start.toLocaleDateString(undefined, { day: "numeric", month: "short" });
+}
+
+/**
+ * Badge shown on the thumbnail instead of the duration for live and upcoming videos
+ */
+function createLiveBadge(videoData: Video): HTMLElement | null {
+  if (videoData.liveStatus === "live") {
+    return el("span", { className: "video-live-badge" }, "LIVE");
+  }
+  if (videoData.liveStatus === "upcoming") {
+    const when = videoData.scheduledStartTime ? formatScheduledTime(videoData.scheduledStartTime) : "soon";
+    return el("span", { className: "video-upcoming-badge" }, `${videoData.isPremiere ? "Premieres" : "Scheduled for"} ${when}`);
+  }
+  return null;
+}
+
+/**
+ * Small CC/HD badges in the top-left corner of the thumbnail
+ * The Data API only reports hd/sd, so 4K videos get the HD badge too
+ */
+function createQualityBadges(videoData: Video): HTMLElement | null {
+  const badges = [
+    videoData.hasCaptions ? "CC" : "",
+    videoData.definition === "hd" ? "HD" : "",
+    videoData.dimension === "3d" ? "3D" : "",
+  ].filter(Boolean);
+
+  if (badges.length === 0) return null;
+
+  return el(
+    "span",
+    { className: "video-quality-badges" },
+    ...badges.map((badge) => el("span", { className: "video-quality-badge" }, badge))
+  );
+}
+
+/**
+ * Checks a video's audio (or, without one, metadata) language against a list of codes
+ */
+function matchesLanguage(video: Video, languages: string[]): boolean {
+  const videoLanguage = (video.defaultAudioLanguage || video.defaultLanguage || "").toLowerCase();
+  if (!videoLanguage) return false;
+
+  return languages.some((language) => {
+    const code = language.toLowerCase();
+    return videoLanguage === code || videoLanguage.startsWith(`${code}-`);
+  });
+}
+
+/**
+ * Case-insensitive check whether any of a video's values (tags or topics) is in the filter list
+ */
+function hasAnyTerm(values: string[] | undefined, terms: string[]): boolean {
+  if (!values || values.length === 0) return false;
+
+  const lowerValues = values.map((value) => value.toLowerCase());
+  return terms.some((term) => lowerValues.includes(term.toLowerCase()));
+}
+
+/**
+ * Red bar along the bottom of the thumbnail showing how much of the video was watched
+ */
+function createProgressBar(videoId: string): HTMLElement | null {
+  const progress = watchProgressById[videoId];
+  if (!progress || progress.duration <= 0) return null;
+
+  const percent = progress.watched ? 100 : Math.min(100, Math.round((progress.position / progress.duration) * 100));
+  return el(
+    "div",
+    { className: "video-progress" },
+    el("div", { className: "video-progress-fill", style: { width: `${percent}%` } })
+  );
+}
+
+/**
+ * Formats a subscriber count like YouTube ("1.2M subscribers")
+ */
+function formatSubscriberCount(subscriberCount: number | null): string {
+  if (subscriberCount === null) return "";
+  return formatViewCount(subscriberCount).replace("views", "subscribers");
+}
+
+/**
+ * Avatar and channel name link for a tile, falling back to plain text without channel details
+ */
+function createChannelElements(videoData: Video): { avatar: HTMLElement | null; name: HTMLElement } {
+  const channelId = videoData.snippet.videoOwnerChannelId;
+  const channelName = videoData.snippet.videoOwnerChannelTitle;
+  if (!channelId) {
+    return { avatar: null, name: el("div", { className: "channel-name" }, channelName) };
+  }
+
+  const channel = channelDetailsById.get(channelId);
+  const channelUrl = channel?.handle ? `/${channel.handle}` : `/channel/${encodeURIComponent(channelId)}`;
+  const subscribers = channel ? formatSubscriberCount(channel.subscriberCount) : "";
+
+  return {
+    avatar: channel?.avatarUrl
+      ? el(
+          "a",
+          { className: "channel-avatar-link", attrs: { href: channelUrl } },
+          el("img", { className: "channel-avatar", attrs: { src: channel.avatarUrl, alt: "" } })
+        )
+      : null,
+    name: el("a", { className: "channel-name", attrs: { href: channelUrl, title: subscribers || null } }, channelName),
+  };
+}
+
+/**
+ * Stats line under the title: viewers for live videos, views and upload date otherwise
+ */
+function formatVideoStats(videoData: Video): string {
+  if (videoData.liveStatus === "live") {
+    return videoData.concurrentViewers !== undefined
+      ? `${videoData.concurrentViewers.toLocaleString()} watching`
+      : "Streaming now";
+  }
+  if (videoData.liveStatus === "upcoming") {
+    return videoData.isPremiere ? "Upcoming premiere" : "Upcoming live stream";
+  }
+  return `${formatViewCount(videoData.viewCount)} • ${formatPublishDate(videoData.snippet.publishedAt)}`;
+}
+
 /**
  * Helper function to truncate title with ellipsis
  */
@@ -215,51 +510,141 @@ function truncateTitle(title: string, maxLength: number = 60): string {
 }
 
 /**
- * Creates the HTML for a single video item (with better error handling).
+ * Label on the thumbnail of a marked video, only visible when the shelf shows hidden videos
  */
-function createVideoItemHTML(videoData: Video): string {
+function createVideoStateLabel(state: VideoState | undefined): HTMLElement | null {
+  if (!isHiddenState(state)) return null;
+
+  let label = "Watched";
+  if (state!.dismissed) {
+    label = "Dismissed";
+  } else if ((state!.snoozedUntil ?? 0) > Date.now()) {
+    const snoozedUntil = new Date(state!.snoozedUntil!).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    label = `Snoozed until ${snoozedUntil}`;
+  }
+  return el("span", { className: "video-state-label" }, label);
+}
+
+/**
+ * Checks if videos in this shelf can be removed from / added to its playlist
+ */
+function isEditableSource(playlistId: string): boolean {
+  // UU… playlists are channel uploads, which the API doesn't let anyone edit
+  return (
+    !READ_ONLY_SOURCE_KEYS.includes(playlistId) &&
+    !playlistId.startsWith("UU") &&
+    !readOnlyCustomSourceIds.has(playlistId)
+  );
+}
+
+/**
+ * Creates the hover menu with playlist actions for a video tile
+ * Copying works from any shelf, moving and removing need an editable source playlist
+ */
+function createVideoActions(videoData: Video, playlistId: string): HTMLElement {
+  const canEdit = !!videoData.playlistItemId && isEditableSource(playlistId);
+  const state = videoStatesById[videoData.contentDetails.videoId];
+  const isSnoozed = (state?.snoozedUntil ?? 0) > Date.now();
+
+  const actionButton = (action: string, label: string, attrs: Record<string, string> = {}) =>
+    el("button", { className: "video-action", attrs: { "data-action": action, ...attrs } }, label);
+
+  return el(
+    "div",
+    { className: "video-actions", attrs: { "data-playlist-item-id": canEdit ? videoData.playlistItemId : null } },
+    el("button", { className: "video-actions-toggle", attrs: { title: "Actions" } }, "⋮"),
+    el(
+      "div",
+      { className: "video-actions-menu" },
+      canEdit && actionButton("move", "Move to…"),
+      actionButton("copy", "Copy to…"),
+      canEdit && actionButton("remove", "Remove from this playlist"),
+      el("div", { className: "video-actions-divider" }),
+      state?.watched ? actionButton("unwatch", "Mark as unwatched") : actionButton("watch", "Mark as watched"),
+      isSnoozed
+        ? actionButton("unsnooze", "Unsnooze")
+        : actionButton("snooze", "Snooze for a day", { "data-snooze-days": "1" }),
+      !isSnoozed && actionButton("snooze", "Snooze for a week", { "data-snooze-days": "7" }),
+      state?.dismissed ? actionButton("undismiss", "Undo dismiss") : actionButton("dismiss", "Dismiss")
+    )
+  );
+}
+
+/**
+ * Link for a tile: the Shorts player for Shorts, otherwise the watch page resuming where the user stopped
+ */
+function getVideoUrl(videoData: Video): string {
+  const videoId = encodeURIComponent(videoData.contentDetails.videoId);
+  if (videoData.isShort) return `/shorts/${videoId}`;
+
+  const progress = watchProgressById[videoData.contentDetails.videoId];
+  const resumeTime = progress && !progress.watched ? `&t=${progress.position}s` : "";
+  return `/watch?v=${videoId}${resumeTime}`;
+}
+
+/**
+ * Creates the tile for a single video (with better error handling).
+ */
+function createVideoItem(videoData: Video, playlistId: string): HTMLElement | null {
   try {
     const { videoId } = videoData.contentDetails;
     const { title, videoOwnerChannelTitle, thumbnails } = videoData.snippet;
 
     if (!videoId || !title || !videoOwnerChannelTitle) {
       console.warn("Missing required video data, skipping video");
-      return "";
+      return null;
     }
 
     const videoDuration = formatDuration(videoData.duration);
-    const truncatedTitle = truncateTitle(title);
-    const formattedViews = formatViewCount(videoData.viewCount);
-    const publishedTime = formatPublishDate(videoData.snippet.publishedAt);
+    const videoUrl = getVideoUrl(videoData);
+    const channel = createChannelElements(videoData);
     const thumbnailUrl = thumbnails?.high?.url || "";
+    const isHidden = isHiddenState(videoStatesById[videoId]);
 
     if (!thumbnailUrl) {
       console.warn("No thumbnail available for video:", videoId);
     }
 
-    return `
-      <div class="playlist-video-item">
-        <a class="thumbnail-link" href="/watch?v=${videoId}">
-          <img src="${thumbnailUrl}" alt="${title.replace(/"/g, "&quot;")}" />
-          <span class="video-duration-overlay">${videoDuration}</span>
-        </a>
-        <div class="video-details">
-          <h3 class="video-title">
-            <a href="/watch?v=${videoId}" title="${title.replace(
-      /"/g,
-      "&quot;"
-    )}">${truncatedTitle}</a>
-          </h3>
-          <div class="video-meta">
-            <div class="channel-name">${videoOwnerChannelTitle}</div>
-            <div class="video-stats">${formattedViews} • ${publishedTime}</div>
-          </div>
-        </div>
-      </div>
-    `;
+    const itemClasses = ["playlist-video-item", videoData.isShort && "is-short", isHidden && "is-hidden-video"];
+
+    return el(
+      "div",
+      { className: itemClasses.filter(Boolean).join(" "), attrs: { "data-video-id": videoId } },
+      el(
+        "a",
+        { className: "thumbnail-link", attrs: { href: videoUrl } },
+        el("img", { attrs: { src: thumbnailUrl, alt: title } }),
+        createLiveBadge(videoData) ||
+          (videoDuration && el("span", { className: "video-duration-overlay" }, videoDuration)),
+        createQualityBadges(videoData),
+        createProgressBar(videoId),
+        createVideoStateLabel(videoStatesById[videoId])
+      ),
+      el(
+        "div",
+        { className: channel.avatar ? "video-details has-avatar" : "video-details" },
+        channel.avatar,
+        el(
+          "div",
+          { className: "video-text" },
+          el(
+            "h3",
+            { className: "video-title" },
+            el("a", { attrs: { href: videoUrl, title: title } }, truncateTitle(title))
+          ),
+          el(
+            "div",
+            { className: "video-meta" },
+            channel.name,
+            el("div", { className: "video-stats" }, formatVideoStats(videoData))
+          )
+        )
+      ),
+      createVideoActions(videoData, playlistId)
+    );
   } catch (error) {
-    console.error("Error creating video HTML:", error, videoData);
-    return "";
+    console.error("Error creating video tile:", error, videoData);
+    return null;
   }
 }
 
@@ -293,22 +678,20 @@ function updateVideoGrid(playlistId: string): void {
   const playlistData = playlistsData.find((p) => p.id === playlistId);
   if (!playlistData) return;
 
-  // Handle empty results (no videos after filtering)
+  // Handle empty results (no videos after filtering, or the playlist failed to load)
   if (playlistData.videos.length === 0) {
     videoGrid.classList.add('empty-state'); // Add the CSS class
-  videoGrid.innerHTML = `
-    <div style="
-      padding: 0px 8px;
-      text-align: center;
-      color: #666;
-      font-size: 24px;
-      line-height: 1.4;
-      width: 100%;
-    ">
-      <p style="margin: 0 0 6px 0; font-size: 20px;">No videos match your current filters</p>
-      <p style="margin: 0; font-size: 16px; color: #888;">Try adjusting your filter settings in the extension popup</p>
-    </div>
-  `;
+    const heading = playlistData.statusMessage || "No videos match your current filters";
+    const hint = playlistData.statusMessage ? "" : "Try adjusting your filter settings in the extension popup";
+    replaceChildren(
+      videoGrid,
+      el(
+        "div",
+        { className: "empty-state-message" },
+        el("p", { className: "empty-state-heading" }, heading),
+        el("p", { className: "empty-state-hint" }, hint)
+      )
+    );
     
     // Hide pagination arrows for empty results
     updateArrowVisibility(playlistId);
@@ -325,7 +708,7 @@ function updateVideoGrid(playlistId: string): void {
 
   // Update content after a short delay for smooth transition
   setTimeout(() => {
-    videoGrid.innerHTML = currentVideos.map(createVideoItemHTML).join("");
+    replaceChildren(videoGrid, ...currentVideos.map((video) => createVideoItem(video, playlistId)));
 
     // Remove transition class after content is updated
     setTimeout(() => {
@@ -355,111 +738,936 @@ function updateArrowVisibility(playlistId: string): void {
   const shouldShowRight =
     playlistData.paginationState.currentPage < getTotalPages(playlistData) - 1;
 
-  if (leftArrow) {
-    leftArrow.style.visibility = shouldShowLeft ? "visible" : "hidden";
+  if (leftArrow) {
+    leftArrow.style.visibility = shouldShowLeft ? "visible" : "hidden";
+  }
+
+  if (rightArrow) {
+    rightArrow.style.visibility = shouldShowRight ? "visible" : "hidden";
+  }
+
+  // Hide entire arrows container if only one page
+  const arrowsContainer = document.querySelector(
+    `.header-arrows-container[data-playlist-id="${playlistId}"]`
+  ) as HTMLElement;
+  if (arrowsContainer) {
+    arrowsContainer.style.display =
+      getTotalPages(playlistData) > 1 ? "flex" : "none";
+  }
+}
+
+/**
+ * Navigation functions for specific playlists
+ */
+function goToPreviousPage(playlistId: string): void {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  if (!playlistData || playlistData.paginationState.currentPage <= 0) return;
+
+  playlistData.paginationState.currentPage--;
+  updateVideoGrid(playlistId);
+}
+
+function goToNextPage(playlistId: string): void {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  if (
+    !playlistData ||
+    playlistData.paginationState.currentPage >= getTotalPages(playlistData) - 1
+  )
+    return;
+
+  playlistData.paginationState.currentPage++;
+  updateVideoGrid(playlistId);
+}
+
+/**
+ * Creates pagination arrows for a specific playlist
+ */
+function createPaginationArrows(playlistId: string): HTMLElement[] {
+  return [
+    el(
+      "span",
+      {
+        className: "pagination-arrow pagination-arrow-left",
+        attrs: { "data-playlist-id": playlistId },
+        style: { visibility: "hidden" },
+      },
+      "<"
+    ),
+    el("span", { className: "pagination-arrow pagination-arrow-right", attrs: { "data-playlist-id": playlistId } }, ">"),
+  ];
+}
+
+/**
+ * Creates the header with title and pagination arrows for a specific playlist
+ */
+function createHeaderWithArrows(
+  playlistTitle: string,
+  playlistId: string
+): HTMLElement {
+  return el(
+    "div",
+    { className: "playlist-header-container" },
+    el("h2", { className: "shelf-title" }, playlistTitle),
+    el(
+      "div",
+      { className: "header-arrows-container", attrs: { "data-playlist-id": playlistId } },
+      ...createPaginationArrows(playlistId)
+    )
+  );
+}
+
+/**
+ * Sets up pagination event listeners for all playlists
+ */
+function setupPaginationEventListeners(): void {
+  // Remove existing listeners to avoid duplicates
+  document.querySelectorAll(".pagination-arrow").forEach((arrow) => {
+    arrow.replaceWith(arrow.cloneNode(true));
+  });
+
+  // Add new listeners
+  document.querySelectorAll(".pagination-arrow-left").forEach((arrow) => {
+    arrow.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const playlistId = (arrow as HTMLElement).getAttribute(
+        "data-playlist-id"
+      );
+      if (playlistId) goToPreviousPage(playlistId);
+    });
+  });
+
+  document.querySelectorAll(".pagination-arrow-right").forEach((arrow) => {
+    arrow.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const playlistId = (arrow as HTMLElement).getAttribute(
+        "data-playlist-id"
+      );
+      if (playlistId) goToNextPage(playlistId);
+    });
+  });
+}
+
+/**
+ * Handles clicks on tile action menus (one delegated listener per video grid)
+ */
+function handleVideoActionClick(event: Event): void {
+  const actionButton = (event.target as HTMLElement).closest<HTMLElement>(".video-action");
+  if (!actionButton) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const videoGrid = actionButton.closest<HTMLElement>(".playlist-video-grid");
+  const playlistId = videoGrid?.getAttribute("data-playlist-id");
+  const videoId = actionButton.closest(".playlist-video-item")?.getAttribute("data-video-id");
+  const actionsMenu = actionButton.closest<HTMLElement>(".video-actions");
+  const playlistItemId = actionsMenu?.getAttribute("data-playlist-item-id");
+  if (!playlistId || !videoId || !actionsMenu) return;
+
+  switch (actionButton.getAttribute("data-action")) {
+    case "remove":
+      if (playlistItemId) removeVideoFromPlaylist(playlistId, playlistItemId);
+      break;
+    case "move":
+    case "copy":
+      openPlaylistPicker(actionsMenu, actionButton.getAttribute("data-action") as "move" | "copy", playlistId);
+      break;
+    case "move-to":
+    case "copy-to": {
+      const targetPlaylistId = actionButton.getAttribute("data-target-playlist-id");
+      if (targetPlaylistId) {
+        copyVideoToPlaylist(playlistId, videoId, targetPlaylistId, actionButton.getAttribute("data-action") === "move-to" ? playlistItemId : null);
+      }
+      break;
+    }
+    case "watch":
+      setVideoState(playlistId, videoId, { watched: true }, "Marked as watched");
+      break;
+    case "unwatch":
+      setVideoState(playlistId, videoId, { watched: false }, "Marked as unwatched");
+      break;
+    case "snooze": {
+      const days = Number(actionButton.getAttribute("data-snooze-days")) || 7;
+      const snoozedUntil = Date.now() + days * 24 * 60 * 60 * 1000;
+      const untilLabel = new Date(snoozedUntil).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+      setVideoState(playlistId, videoId, { snoozedUntil }, `Snoozed until ${untilLabel}`);
+      break;
+    }
+    case "unsnooze":
+      setVideoState(playlistId, videoId, { snoozedUntil: undefined }, "Snooze removed");
+      break;
+    case "dismiss":
+      setVideoState(playlistId, videoId, { dismissed: true }, "Dismissed");
+      break;
+    case "undismiss":
+      setVideoState(playlistId, videoId, { dismissed: false }, "Restored");
+      break;
+  }
+}
+
+/**
+ * Saves a tile's watched/snoozed/dismissed state and redraws every shelf showing the video
+ * Shelves drop it right away unless they're set to show hidden videos
+ */
+async function setVideoState(
+  playlistId: string,
+  videoId: string,
+  changes: Partial<Omit<VideoState, "updatedAt">>,
+  notice: string
+): Promise<void> {
+  try {
+    videoStatesById = await updateVideoState(videoId, changes);
+  } catch (error) {
+    console.error("❌ Failed to save video state:", error);
+    showShelfNotice(playlistId, "Couldn't save that, try again");
+    return;
+  }
+
+  const isHidden = isHiddenState(videoStatesById[videoId]);
+
+  for (const playlistData of playlistsData) {
+    if (!playlistData.videos.some((video) => video.contentDetails.videoId === videoId)) continue;
+
+    const playlistSettings = await getPlaylistSettings(getSourceId(playlistData.id));
+    if (isHidden && !playlistSettings?.filters.showHidden) {
+      playlistData.videos = playlistData.videos.filter((video) => video.contentDetails.videoId !== videoId);
+      playlistData.paginationState.allVideos = playlistData.videos;
+      playlistData.paginationState.totalVideos = playlistData.videos.length;
+
+      const lastPage = Math.max(0, getTotalPages(playlistData) - 1);
+      playlistData.paginationState.currentPage = Math.min(playlistData.paginationState.currentPage, lastPage);
+    }
+
+    updateVideoGrid(playlistData.id);
+  }
+
+  showShelfNotice(playlistId, notice);
+}
+
+// The user's own playlists, loaded once per page for the Move to…/Copy to… pickers
+let userPlaylistsPromise: Promise<PlaylistInfo[]> | null = null;
+
+/**
+ * Marks the selected sources added by URL as read-only unless they're among the user's own playlists,
+ * so edits that can only fail with a 403 aren't offered. If ownership can't be checked they stay read-only
+ */
+async function loadReadOnlyCustomSources(playlistIds: string[]): Promise<void> {
+  const customSources: PlaylistInfo[] = await new Promise((resolve) => {
+    chrome.storage.local.get(["customPlaylistSources"], (result) => resolve(result.customPlaylistSources || []));
+  });
+
+  readOnlyCustomSourceIds = new Set(
+    customSources.map((source) => source.id).filter((sourceId) => playlistIds.includes(sourceId))
+  );
+  if (readOnlyCustomSourceIds.size === 0) return;
+
+  try {
+    const quotaStatus = await getQuotaStatus();
+    if (quotaStatus?.cacheOnly) return;
+
+    const userPlaylists = await getTargetPlaylists();
+    userPlaylists.forEach((playlist) => readOnlyCustomSourceIds.delete(playlist.id));
+  } catch (error) {
+    console.warn("⚠️ Could not check which added playlists are yours, keeping them read-only:", toYoutubeApiError(error));
+  }
+}
+
+/**
+ * Gets the playlists a video can be moved or copied to
+ */
+async function getTargetPlaylists(): Promise<PlaylistInfo[]> {
+  if (!userPlaylistsPromise) {
+    userPlaylistsPromise = (async () => {
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        throw new AuthError("No auth token available", 401, "noToken");
+      }
+
+      const apiService = new YoutubeApiService(authToken, {
+        onApiCall: trackAPICall,
+        refreshAuthToken: refreshAuthToken,
+      });
+      return apiService.getUserPlaylists();
+    })();
+
+    // Let the next picker try again instead of caching the failure
+    userPlaylistsPromise.catch(() => {
+      userPlaylistsPromise = null;
+    });
+  }
+
+  return userPlaylistsPromise;
+}
+
+/**
+ * Replaces a tile's action menu with the list of playlists to move/copy the video to
+ */
+async function openPlaylistPicker(
+  actionsMenu: HTMLElement,
+  action: "move" | "copy",
+  sourcePlaylistId: string
+): Promise<void> {
+  const menu = actionsMenu.querySelector<HTMLElement>(".video-actions-menu");
+  if (!menu) return;
+
+  menu.classList.add("video-playlist-picker");
+  replaceChildren(menu, el("div", { className: "video-action-status" }, "Loading playlists…"));
+
+  try {
+    const targets = (await getTargetPlaylists()).filter((playlist) => playlist.id !== sourcePlaylistId);
+
+    const heading = targets.length > 0
+      ? (action === "move" ? "Move to…" : "Copy to…")
+      : "You don't have any other playlists";
+
+    replaceChildren(
+      menu,
+      el("div", { className: "video-action-status" }, heading),
+      ...targets.map((playlist) =>
+        el(
+          "button",
+          {
+            className: "video-action",
+            attrs: { "data-action": `${action}-to`, "data-target-playlist-id": playlist.id },
+          },
+          playlist.title
+        )
+      )
+    );
+  } catch (error) {
+    const apiError = toYoutubeApiError(error);
+    console.error("❌ Failed to load playlists for picker:", apiError);
+    replaceChildren(menu, el("div", { className: "video-action-status" }, getEditErrorMessage(apiError)));
+  }
+}
+
+/**
+ * Re-applies the shelf's filters/sorting to a playlist's cached videos and redraws it
+ */
+async function refreshShelfVideos(playlistId: string, videos: Video[]): Promise<void> {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  if (!playlistData) return;
+
+  let processedVideos = videos.filter((video) => !isHiddenState(videoStatesById[video.contentDetails.videoId]));
+  const playlistSettings = await getPlaylistSettings(getSourceId(playlistId));
+  if (playlistSettings) {
+    processedVideos = applySorting(applyFilters(videos, playlistSettings.filters), playlistSettings.sort);
+  }
+
+  playlistData.videos = processedVideos;
+  playlistData.paginationState.allVideos = processedVideos;
+  playlistData.paginationState.totalVideos = processedVideos.length;
+
+  const lastPage = Math.max(0, getTotalPages(playlistData) - 1);
+  playlistData.paginationState.currentPage = Math.min(playlistData.paginationState.currentPage, lastPage);
+
+  updateVideoGrid(playlistId);
+}
+
+/**
+ * Copies a video into another of the user's playlists, then removes it from the source when moving
+ * Both cache entries are edited in place instead of being refetched
+ */
+async function copyVideoToPlaylist(
+  sourcePlaylistId: string,
+  videoId: string,
+  targetPlaylistId: string,
+  moveFromPlaylistItemId: string | null | undefined
+): Promise<void> {
+  const sourceShelf = playlistsData.find((p) => p.id === sourcePlaylistId);
+  const video = sourceShelf?.videos.find((v) => v.contentDetails.videoId === videoId);
+  if (!video) return;
+
+  const tile = document.querySelector<HTMLElement>(
+    `.playlist-video-grid[data-playlist-id="${sourcePlaylistId}"] .playlist-video-item[data-video-id="${videoId}"]`
+  );
+  tile?.classList.add("video-pending");
+
+  let apiService: YoutubeApiService;
+  let newPlaylistItemId: string;
+
+  try {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      throw new AuthError("No auth token available", 401, "noToken");
+    }
+
+    apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+    });
+    newPlaylistItemId = await apiService.addPlaylistItem(targetPlaylistId, videoId);
+  } catch (error) {
+    const apiError = toYoutubeApiError(error);
+    console.error("❌ Failed to add video to playlist:", apiError);
+    tile?.classList.remove("video-pending");
+    showShelfNotice(sourcePlaylistId, getEditErrorMessage(apiError));
+    return;
+  }
+
+  const targetTitle = (await getTargetPlaylists().catch(() => []))
+    .find((playlist) => playlist.id === targetPlaylistId)?.title || "playlist";
+  console.log(`➕ Added ${videoId} to ${targetPlaylistId} as ${newPlaylistItemId}`);
+
+  // playlistItems.insert appends, so the copy goes to the end of the target
+  const targetCache = await updateCachedPlaylist(targetPlaylistId, (cachedData) => {
+    // Position stays unknown when only part of the target playlist is cached
+    const isFullyCached = cachedData.videoFetchCount === 'all' ||
+      cachedData.videos.length < (cachedData.videoFetchCount || 50);
+    cachedData.videos.push({
+      ...video,
+      playlistItemId: newPlaylistItemId,
+      addedAt: new Date().toISOString(),
+      position: isFullyCached ? cachedData.videos.length : undefined,
+    });
+    cachedData.totalVideos = cachedData.videos.length;
+  });
+  if (targetCache) {
+    await refreshShelfVideos(targetPlaylistId, targetCache.videos);
+  }
+
+  if (!moveFromPlaylistItemId) {
+    tile?.classList.remove("video-pending");
+    showShelfNotice(sourcePlaylistId, `Copied to ${targetTitle}`);
+    return;
+  }
+
+  try {
+    await apiService.removePlaylistItem(moveFromPlaylistItemId);
+  } catch (error) {
+    const apiError = toYoutubeApiError(error);
+    if (apiError.status !== 404) {
+      console.error("❌ Copied but failed to remove from source playlist:", apiError);
+      tile?.classList.remove("video-pending");
+      showShelfNotice(sourcePlaylistId, `Copied to ${targetTitle}, but couldn't remove it here: ${getEditErrorMessage(apiError)}`);
+      return;
+    }
+  }
+
+  await removeVideoFromShelf(sourcePlaylistId, moveFromPlaylistItemId);
+  showShelfNotice(sourcePlaylistId, `Moved to ${targetTitle}`);
+}
+
+/**
+ * Shows a short message next to a shelf title (e.g. when a playlist edit fails)
+ */
+function showShelfNotice(playlistId: string, message: string): void {
+  const header = document.querySelector(
+    `#custom-playlist-container-${playlistId} .playlist-header-container`
+  );
+  if (!header) return;
+
+  header.querySelector(".shelf-notice")?.remove();
+
+  const notice = document.createElement("span");
+  notice.className = "shelf-notice";
+  notice.textContent = message;
+  header.appendChild(notice);
+
+  setTimeout(() => notice.remove(), 5000);
+}
+
+/**
+ * Drops a video from a shelf and its cache entry, keeping the current page in range
+ */
+async function removeVideoFromShelf(playlistId: string, playlistItemId: string): Promise<void> {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  if (playlistData) {
+    playlistData.videos = playlistData.videos.filter((video) => video.playlistItemId !== playlistItemId);
+    playlistData.paginationState.allVideos = playlistData.videos;
+    playlistData.paginationState.totalVideos = playlistData.videos.length;
+
+    const lastPage = Math.max(0, getTotalPages(playlistData) - 1);
+    playlistData.paginationState.currentPage = Math.min(playlistData.paginationState.currentPage, lastPage);
+
+    updateVideoGrid(playlistId);
+  }
+
+  await updateCachedPlaylist(playlistId, (cachedData) => {
+    const removed = cachedData.videos.find((video) => video.playlistItemId === playlistItemId);
+    cachedData.videos = cachedData.videos.filter((video) => video !== removed);
+    cachedData.totalVideos = cachedData.videos.length;
+
+    // Everything after the removed item moves up one place
+    if (removed?.position !== undefined) {
+      cachedData.videos.forEach((video) => {
+        if (video.position !== undefined && video.position > removed.position!) video.position--;
+      });
+    }
+  });
+}
+
+/**
+ * Removes a video from the user's playlist on YouTube, then from the shelf
+ */
+async function removeVideoFromPlaylist(playlistId: string, playlistItemId: string): Promise<void> {
+  const tile = document.querySelector<HTMLElement>(
+    `.playlist-video-grid[data-playlist-id="${playlistId}"] .video-actions[data-playlist-item-id="${playlistItemId}"]`
+  )?.closest<HTMLElement>(".playlist-video-item");
+  tile?.classList.add("video-pending");
+
+  try {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      throw new AuthError("No auth token available", 401, "noToken");
+    }
+
+    const apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+    });
+
+    try {
+      await apiService.removePlaylistItem(playlistItemId);
+    } catch (error) {
+      // Already gone on YouTube (e.g. removed in another tab), so just drop it locally
+      if (!(error instanceof YoutubeApiError && error.status === 404)) {
+        throw error;
+      }
+    }
+
+    console.log(`🗑️ Removed playlist item ${playlistItemId} from ${playlistId}`);
+    await removeVideoFromShelf(playlistId, playlistItemId);
+  } catch (error) {
+    const apiError = toYoutubeApiError(error);
+    console.error("❌ Failed to remove video from playlist:", apiError);
+    tile?.classList.remove("video-pending");
+    showShelfNotice(playlistId, getEditErrorMessage(apiError));
+  }
+}
+
+/**
+ * Adds the "Apply this order on YouTube" button to a shelf header
+ * Shown for custom-sorted shelves, or as "Resume" when an earlier run stopped partway
+ */
+async function addReorderControl(header: HTMLElement, playlistData: MultiPlaylistData): Promise<void> {
+  const pendingJob = await getReorderJob(playlistData.id);
+  if (!playlistData.hasCustomSort && !pendingJob) return;
+
+  const button = document.createElement("button");
+  button.className = "shelf-action";
+  button.textContent = pendingJob
+    ? "Resume reordering on YouTube"
+    : "Apply this order to the playlist on YouTube";
+  button.addEventListener("click", () => showReorderPreview(playlistData.id));
+  header.appendChild(button);
+}
+
+/**
+ * Reads the saved reorder run for a playlist, if any
+ */
+async function getReorderJob(playlistId: string): Promise<ReorderJob | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([REORDER_JOBS_KEY], (result) => {
+      resolve(result[REORDER_JOBS_KEY]?.[playlistId] || null);
+    });
+  });
+}
+
+/**
+ * Saves (or with null, clears) the reorder run for a playlist
+ */
+async function setReorderJob(playlistId: string, job: ReorderJob | null): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([REORDER_JOBS_KEY], (result) => {
+      const jobs: Record<string, ReorderJob> = result[REORDER_JOBS_KEY] || {};
+      if (job) {
+        jobs[playlistId] = job;
+      } else {
+        delete jobs[playlistId];
+      }
+      chrome.storage.local.set({ [REORDER_JOBS_KEY]: jobs }, () => resolve());
+    });
+  });
+}
+
+/**
+ * Reads a playlist's cached videos, which are in the playlist's own order
+ */
+async function getCachedPlaylistVideos(playlistId: string): Promise<Video[] | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([CACHE_KEY], (result) => {
+      const cache: PlaylistCache = result[CACHE_KEY] || {};
+      const cachedData = cache[playlistId];
+      resolve(cachedData && isCurrentCacheEntry(cachedData) ? cachedData.videos : null);
+    });
+  });
+}
+
+/**
+ * Works out which items to move so the playlist starts with the job's items, in order
+ * Each move is simulated so positions account for the shifts caused by earlier moves;
+ * items outside the job keep their relative order after them
+ */
+function planReorderSteps(currentVideos: Video[], job: ReorderJob): ReorderStep[] {
+  const order = [...currentVideos];
+  const steps: ReorderStep[] = [];
+
+  job.items.forEach((item, targetPosition) => {
+    const currentPosition = order.findIndex((video) => video.playlistItemId === item.playlistItemId);
+    if (currentPosition === -1 || currentPosition === targetPosition) return;
+
+    const [video] = order.splice(currentPosition, 1);
+    order.splice(targetPosition, 0, video);
+    steps.push({
+      playlistItemId: item.playlistItemId,
+      videoId: item.videoId,
+      title: video.snippet.title,
+      fromPosition: currentPosition,
+      toPosition: targetPosition,
+    });
+  });
+
+  return steps;
+}
+
+/**
+ * Opens (or replaces) the reorder panel under a shelf header
+ */
+function getReorderPanel(playlistId: string): HTMLElement | null {
+  const container = document.getElementById(`custom-playlist-container-${playlistId}`);
+  const header = container?.querySelector(".playlist-header-container");
+  if (!container || !header) return null;
+
+  container.querySelector(".reorder-panel")?.remove();
+
+  const panel = document.createElement("div");
+  panel.className = "reorder-panel";
+  header.after(panel);
+  return panel;
+}
+
+function appendPanelText(panel: HTMLElement, text: string, className = "reorder-panel-text"): HTMLElement {
+  const line = document.createElement("p");
+  line.className = className;
+  line.textContent = text;
+  panel.appendChild(line);
+  return line;
+}
+
+function appendPanelButton(panel: HTMLElement, label: string, onClick: () => void): void {
+  const button = document.createElement("button");
+  button.className = "shelf-action";
+  button.textContent = label;
+  button.addEventListener("click", onClick);
+  panel.appendChild(button);
+}
+
+/**
+ * Dry run: lists the moves needed to apply the shelf order, with the quota they'll cost
+ * Resumes a saved run instead when one exists for this playlist
+ */
+async function showReorderPreview(playlistId: string): Promise<void> {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  const panel = getReorderPanel(playlistId);
+  if (!playlistData || !panel) return;
+
+  const cachedVideos = await getCachedPlaylistVideos(playlistId);
+  if (!cachedVideos) {
+    appendPanelText(panel, "This playlist isn't cached yet. Reload the page and try again.");
+    appendPanelButton(panel, "Close", () => panel.remove());
+    return;
+  }
+
+  const savedJob = await getReorderJob(playlistId);
+  const job: ReorderJob = savedJob || {
+    playlistId: playlistId,
+    items: playlistData.videos
+      .filter((video) => video.playlistItemId)
+      .map((video) => ({ playlistItemId: video.playlistItemId!, videoId: video.contentDetails.videoId })),
+    startedAt: Date.now(),
+  };
+
+  const steps = planReorderSteps(cachedVideos, job);
+  if (steps.length === 0) {
+    await setReorderJob(playlistId, null);
+    appendPanelText(panel, "The playlist on YouTube is already in this order.");
+    appendPanelButton(panel, "Close", () => panel.remove());
+    return;
   }
 
-  if (rightArrow) {
-    rightArrow.style.visibility = shouldShowRight ? "visible" : "hidden";
+  const quotaCost = steps.length * PLAYLIST_WRITE_COST;
+  const quotaStatus = await getQuotaStatus();
+
+  appendPanelText(
+    panel,
+    savedJob
+      ? `Resuming: ${steps.length} videos still need to move.`
+      : `${steps.length} of ${cachedVideos.length} videos will change position.`,
+    "reorder-panel-title"
+  );
+  appendPanelText(
+    panel,
+    `Estimated cost: ${quotaCost.toLocaleString()} quota units` +
+      (quotaStatus ? ` (${quotaStatus.remaining.toLocaleString()} left today).` : ".")
+  );
+  if (quotaStatus && quotaCost > quotaStatus.remaining) {
+    appendPanelText(panel, "That's more than today's remaining quota, so it will stop partway. You can resume after the daily reset.");
   }
 
-  // Hide entire arrows container if only one page
-  const arrowsContainer = document.querySelector(
-    `.header-arrows-container[data-playlist-id="${playlistId}"]`
-  ) as HTMLElement;
-  if (arrowsContainer) {
-    arrowsContainer.style.display =
-      getTotalPages(playlistData) > 1 ? "flex" : "none";
+  const preview = document.createElement("ol");
+  preview.className = "reorder-preview";
+  steps.slice(0, 10).forEach((step) => {
+    const item = document.createElement("li");
+    item.textContent = `#${step.fromPosition + 1} → #${step.toPosition + 1}  ${truncateTitle(step.title)}`;
+    preview.appendChild(item);
+  });
+  panel.appendChild(preview);
+  if (steps.length > 10) {
+    appendPanelText(panel, `…and ${steps.length - 10} more`);
   }
+
+  appendPanelButton(panel, savedJob ? "Resume" : "Apply order", () => runReorderJob(job));
+  appendPanelButton(panel, "Cancel", async () => {
+    await setReorderJob(playlistId, null);
+    panel.remove();
+  });
 }
 
 /**
- * Navigation functions for specific playlists
+ * Writes the job's order to YouTube one playlistItems.update at a time
+ * The cache is reordered after every move, so a stopped run resumes from where it left off
  */
-function goToPreviousPage(playlistId: string): void {
-  const playlistData = playlistsData.find((p) => p.id === playlistId);
-  if (!playlistData || playlistData.paginationState.currentPage <= 0) return;
+async function runReorderJob(job: ReorderJob): Promise<void> {
+  const playlistId = job.playlistId;
+  const panel = getReorderPanel(playlistId);
+  if (!panel) return;
 
-  playlistData.paginationState.currentPage--;
-  updateVideoGrid(playlistId);
-}
+  await setReorderJob(playlistId, job);
 
-function goToNextPage(playlistId: string): void {
-  const playlistData = playlistsData.find((p) => p.id === playlistId);
-  if (
-    !playlistData ||
-    playlistData.paginationState.currentPage >= getTotalPages(playlistData) - 1
-  )
+  const cachedVideos = await getCachedPlaylistVideos(playlistId);
+  const steps = cachedVideos ? planReorderSteps(cachedVideos, job) : [];
+
+  const status = appendPanelText(panel, "Reordering…", "reorder-panel-title");
+  const progress = document.createElement("progress");
+  progress.className = "reorder-progress";
+  progress.max = steps.length;
+  progress.value = 0;
+  panel.appendChild(progress);
+
+  try {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      throw new AuthError("No auth token available", 401, "noToken");
+    }
+
+    const apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+    });
+
+    for (const [index, step] of steps.entries()) {
+      status.textContent = `Reordering… ${index + 1} / ${steps.length}`;
+
+      const realPlaylistId = getSourceId(playlistId);
+      await apiService.updatePlaylistItemPosition(step.playlistItemId, realPlaylistId, step.videoId, step.toPosition);
+
+      await updateCachedPlaylist(playlistId, (cachedData) => {
+        const fromPosition = cachedData.videos.findIndex((video) => video.playlistItemId === step.playlistItemId);
+        if (fromPosition === -1) return;
+        const [video] = cachedData.videos.splice(fromPosition, 1);
+        cachedData.videos.splice(step.toPosition, 0, video);
+        cachedData.videos.forEach((cachedVideo, position) => {
+          cachedVideo.position = position;
+        });
+      });
+      progress.value = index + 1;
+    }
+  } catch (error) {
+    const apiError = toYoutubeApiError(error);
+    console.error("❌ Reordering stopped:", apiError);
+    status.textContent = `Stopped at ${progress.value} / ${steps.length}: ${getEditErrorMessage(apiError)}`;
+    appendPanelButton(panel, "Resume", () => runReorderJob(job));
+    appendPanelButton(panel, "Close", () => panel.remove());
     return;
+  }
 
-  playlistData.paginationState.currentPage++;
-  updateVideoGrid(playlistId);
+  await setReorderJob(playlistId, null);
+  console.log(`✅ Applied shelf order to ${playlistId} (${steps.length} moves)`);
+  status.textContent = `Done. Moved ${steps.length} videos, the playlist on YouTube now matches this shelf.`;
+  appendPanelButton(panel, "Close", () => panel.remove());
 }
 
 /**
- * Creates pagination arrows for a specific playlist
+ * Adds the "Save as new playlist" button to a shelf header
  */
-function createPaginationArrows(playlistId: string): string {
-  return `
-    <span class="pagination-arrow pagination-arrow-left" data-playlist-id="${playlistId}" style="visibility: hidden;">&lt;</span>
-    <span class="pagination-arrow pagination-arrow-right" data-playlist-id="${playlistId}">&gt;</span>
-  `;
+function addSaveAsPlaylistControl(header: HTMLElement, playlistData: MultiPlaylistData): void {
+  const button = document.createElement("button");
+  button.className = "shelf-action";
+  button.textContent = "Save as new playlist";
+  button.addEventListener("click", () => showSaveAsPlaylistForm(playlistData.id));
+  header.appendChild(button);
 }
 
 /**
- * Creates the header with title and pagination arrows for a specific playlist
+ * Form for turning the shelf's filtered/sorted videos into a real playlist: title, privacy and quota cost
  */
-function createHeaderWithArrows(
-  playlistTitle: string,
-  playlistId: string
-): HTMLElement {
-  const headerContainer = document.createElement("div");
-  headerContainer.className = "playlist-header-container";
+async function showSaveAsPlaylistForm(playlistId: string): Promise<void> {
+  const playlistData = playlistsData.find((p) => p.id === playlistId);
+  const panel = getReorderPanel(playlistId);
+  if (!playlistData || !panel) return;
+
+  const videoCount = playlistData.videos.length;
+  const quotaCost = (videoCount + 1) * PLAYLIST_WRITE_COST; // playlists.insert + one playlistItems.insert per video
+  const quotaStatus = await getQuotaStatus();
+
+  appendPanelText(panel, `Save these ${videoCount} videos as a new playlist`, "reorder-panel-title");
+
+  const titleInput = document.createElement("input");
+  titleInput.className = "shelf-form-input";
+  titleInput.type = "text";
+  titleInput.maxLength = 150; // YouTube's playlist title limit
+  titleInput.value = `${playlistData.title} (filtered)`;
+  panel.appendChild(titleInput);
+
+  const privacySelect = document.createElement("select");
+  privacySelect.className = "shelf-form-input";
+  (["private", "unlisted", "public"] as const).forEach((privacy) => {
+    const option = document.createElement("option");
+    option.value = privacy;
+    option.textContent = privacy.charAt(0).toUpperCase() + privacy.slice(1);
+    privacySelect.appendChild(option);
+  });
+  panel.appendChild(privacySelect);
+
+  const showAsShelfLabel = document.createElement("label");
+  showAsShelfLabel.className = "reorder-panel-text";
+  const showAsShelf = document.createElement("input");
+  showAsShelf.type = "checkbox";
+  showAsShelf.checked = true;
+  showAsShelfLabel.append(showAsShelf, " Show it as a shelf");
+  panel.appendChild(showAsShelfLabel);
+
+  appendPanelText(
+    panel,
+    `Estimated cost: ${quotaCost.toLocaleString()} quota units` +
+      (quotaStatus ? ` (${quotaStatus.remaining.toLocaleString()} left today).` : ".")
+  );
+  if (quotaStatus && quotaCost > quotaStatus.remaining) {
+    appendPanelText(panel, "That's more than today's remaining quota, so only part of the videos may be added.");
+  }
+
+  appendPanelButton(panel, "Create playlist", () => {
+    const title = titleInput.value.trim();
+    if (!title) {
+      titleInput.focus();
+      return;
+    }
+    createPlaylistFromShelf(
+      playlistId,
+      title,
+      privacySelect.value as PlaylistInfo["privacy"],
+      showAsShelf.checked
+    );
+  });
+  appendPanelButton(panel, "Cancel", () => panel.remove());
+}
+
+/**
+ * Creates the playlist, adds the shelf's videos in order and caches the result
+ * so it can be selected as a shelf without fetching it again
+ */
+async function createPlaylistFromShelf(
+  sourcePlaylistId: string,
+  title: string,
+  privacy: PlaylistInfo["privacy"],
+  showAsShelf: boolean
+): Promise<void> {
+  const playlistData = playlistsData.find((p) => p.id === sourcePlaylistId);
+  const panel = getReorderPanel(sourcePlaylistId);
+  if (!playlistData || !panel) return;
+
+  const videos = [...playlistData.videos];
+  const status = appendPanelText(panel, "Creating playlist…", "reorder-panel-title");
+  const progress = document.createElement("progress");
+  progress.className = "reorder-progress";
+  progress.max = videos.length;
+  progress.value = 0;
+  panel.appendChild(progress);
+
+  let newPlaylist: PlaylistInfo | null = null;
+  const addedVideos: Video[] = [];
+  let stopError: YoutubeApiError | null = null;
+
+  try {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      throw new AuthError("No auth token available", 401, "noToken");
+    }
+
+    const apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+    });
+
+    newPlaylist = await apiService.createPlaylist(title, privacy, `Created from the "${playlistData.title}" shelf`);
+    console.log(`📝 Created playlist ${newPlaylist.id} "${title}"`);
+
+    for (const video of videos) {
+      status.textContent = `Adding videos… ${addedVideos.length + 1} / ${videos.length}`;
+      const playlistItemId = await apiService.addPlaylistItem(newPlaylist.id, video.contentDetails.videoId);
+      addedVideos.push({
+        ...video,
+        playlistItemId: playlistItemId,
+        addedAt: new Date().toISOString(),
+        position: addedVideos.length,
+      });
+      progress.value = addedVideos.length;
+    }
+  } catch (error) {
+    stopError = toYoutubeApiError(error);
+    console.error("❌ Creating playlist from shelf stopped:", stopError);
+  }
+
+  if (!newPlaylist) {
+    status.textContent = `Couldn't create the playlist: ${getEditErrorMessage(stopError!)}`;
+    appendPanelButton(panel, "Close", () => panel.remove());
+    return;
+  }
 
-  const shelfTitle = document.createElement("h2");
-  shelfTitle.className = "shelf-title";
-  shelfTitle.textContent = playlistTitle;
+  await updatePlaylistCache([{
+    playlistId: newPlaylist.id,
+    videos: addedVideos,
+    lastFetched: Date.now(),
+    totalVideos: addedVideos.length,
+    title: newPlaylist.title,
+  }]);
 
-  const arrowsContainer = document.createElement("div");
-  arrowsContainer.className = "header-arrows-container";
-  arrowsContainer.setAttribute("data-playlist-id", playlistId);
-  arrowsContainer.innerHTML = createPaginationArrows(playlistId);
+  // Keep the Move to…/Copy to… pickers in sync without reloading the list
+  userPlaylistsPromise?.then((playlists) => playlists.unshift(newPlaylist!)).catch(() => {});
 
-  headerContainer.appendChild(shelfTitle);
-  headerContainer.appendChild(arrowsContainer);
+  status.textContent = stopError
+    ? `Created "${newPlaylist.title}" with ${addedVideos.length} of ${videos.length} videos. Stopped: ${getEditErrorMessage(stopError)}`
+    : `Created "${newPlaylist.title}" with ${addedVideos.length} videos.`;
 
-  return headerContainer;
+  if (showAsShelf && !(await addSelectedPlaylist(newPlaylist.id))) {
+    appendPanelText(panel, "You already have the maximum number of shelves. Select it in the extension popup instead of another one.");
+  }
+  appendPanelButton(panel, "Close", () => panel.remove());
 }
 
 /**
- * Sets up pagination event listeners for all playlists
+ * Adds a playlist to the selected shelves (the background then asks every tab to re-inject)
+ * Resolves false when the popup's shelf limit is already reached
  */
-function setupPaginationEventListeners(): void {
-  // Remove existing listeners to avoid duplicates
-  document.querySelectorAll(".pagination-arrow").forEach((arrow) => {
-    arrow.replaceWith(arrow.cloneNode(true));
-  });
-
-  // Add new listeners
-  document.querySelectorAll(".pagination-arrow-left").forEach((arrow) => {
-    arrow.addEventListener("click", (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      const playlistId = (arrow as HTMLElement).getAttribute(
-        "data-playlist-id"
-      );
-      if (playlistId) goToPreviousPage(playlistId);
-    });
-  });
+async function addSelectedPlaylist(playlistId: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(["selectedPlaylists"], (result) => {
+      const selectedPlaylists = result.selectedPlaylists || { playlistIds: [], maxPlaylists: 3, playlistSettings: {} };
+      const playlistIds: string[] = selectedPlaylists.playlistIds || [];
+      if (playlistIds.includes(playlistId)) {
+        resolve(true);
+        return;
+      }
+      if (playlistIds.length >= (selectedPlaylists.maxPlaylists || 3)) {
+        resolve(false);
+        return;
+      }
 
-  document.querySelectorAll(".pagination-arrow-right").forEach((arrow) => {
-    arrow.addEventListener("click", (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      const playlistId = (arrow as HTMLElement).getAttribute(
-        "data-playlist-id"
-      );
-      if (playlistId) goToNextPage(playlistId);
+      selectedPlaylists.playlistIds = [...playlistIds, playlistId];
+      chrome.storage.local.set({ selectedPlaylists: selectedPlaylists }, () => resolve(true));
     });
   });
 }
@@ -495,14 +1703,46 @@ async function getAuthToken(): Promise<string | null> {
   });
 }
 
+/**
+ * Asks the background to drop an expired token and get a fresh one without prompting
+ */
+async function refreshAuthToken(expiredToken: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!chrome.runtime?.id) {
+      console.warn("⚠️ Extension context invalidated");
+      resolve(null);
+      return;
+    }
+
+    chrome.runtime.sendMessage(
+      { type: "REFRESH_AUTH_TOKEN", data: { token: expiredToken } },
+      (response) => {
+        if (chrome.runtime.lastError) {
+          console.error("Failed to refresh auth token:", chrome.runtime.lastError.message);
+          resolve(null);
+          return;
+        }
+
+        resolve(response?.token || null);
+      }
+    );
+  });
+}
+
 /**
  * Gets selected playlists from storage
  */
-async function getSelectedPlaylists(): Promise<string[]> {
+async function getSelectedPlaylists(page: ShelfPage = "home"): Promise<string[]> {
   return new Promise((resolve) => {
     chrome.storage.local.get(["selectedPlaylists"], (result) => {
       if (result.selectedPlaylists && result.selectedPlaylists.playlistIds) {
-        resolve(result.selectedPlaylists.playlistIds);
+        // Shelves without a page choice keep appearing on the homepage only
+        const shelfPages: Record<string, ShelfPage[]> = result.selectedPlaylists.shelfPages || {};
+        resolve(
+          result.selectedPlaylists.playlistIds.filter((playlistId: string) =>
+            (shelfPages[playlistId] || ["home"]).includes(page)
+          )
+        );
       } else {
         resolve([]);
       }
@@ -552,18 +1792,51 @@ async function trackAPICall(endpoint: string, responseTime: number | null, succe
   }
 }
 
+/**
+ * Gets today's quota usage and budget from the background ledger
+ */
+async function getQuotaStatus(): Promise<QuotaStatus | null> {
+  return new Promise((resolve) => {
+    if (!chrome.runtime?.id) {
+      resolve(null);
+      return;
+    }
+
+    chrome.runtime.sendMessage({ type: "GET_QUOTA_STATUS" }, (response) => {
+      if (chrome.runtime.lastError || !response || response.error) {
+        console.warn("📊 Could not read quota ledger, continuing without budget check");
+        resolve(null);
+        return;
+      }
+
+      resolve(response);
+    });
+  });
+}
+
+/**
+ * Asked by the API service before each request of a long fetch; stops at the same point as cache-only mode
+ */
+async function isQuotaBudgetExhausted(): Promise<boolean> {
+  const quotaStatus = await getQuotaStatus();
+  return !!quotaStatus?.cacheOnly;
+}
+
 /**
  * Fetches multiple playlists data from YouTube API and applies filters/sorting
  */
-async function fetchMultiplePlaylistsData(): Promise<MultiPlaylistData[] | null> {
+async function fetchMultiplePlaylistsData(page: ShelfPage = "home"): Promise<MultiPlaylistData[] | null> {
   console.log("🧪 CACHE TEST: fetchMultiplePlaylistsData function called!");
   try {
-    // Get selected playlist IDs from storage
-    const selectedPlaylistIds = await getSelectedPlaylists();
-    if (selectedPlaylistIds.length === 0) {
+    // Get the playlist IDs selected for this page from storage
+    const selectedSourceIds = await getSelectedPlaylists(page);
+    if (selectedSourceIds.length === 0) {
       return null;
     }
 
+    const showContinueWatching = selectedSourceIds.includes(CONTINUE_WATCHING_ID);
+    const selectedPlaylistIds = selectedSourceIds.filter((id) => id !== CONTINUE_WATCHING_ID);
+
     console.log(`🎬 Content: Processing ${selectedPlaylistIds.length} playlists with caching`);
 
     // Check cache first
@@ -587,40 +1860,52 @@ async function fetchMultiplePlaylistsData(): Promise<MultiPlaylistData[] | null>
 
     // eslint-disable-next-line prefer-const
     let allPlaylistData: CachedPlaylistData[] = [...freshPlaylists];
+    let fetchFailures: PlaylistFetchFailure[] = [];
 
     // Fetch expired/missing playlists
     if (expiredPlaylists.length > 0) {
       console.log(`🔄 Fetching ${expiredPlaylists.length} expired/missing playlists from API`);
       
-      const freshlyFetched = await fetchPlaylistsFromAPI(expiredPlaylists);
+      const staleCache = cachedPlaylists.filter((cached) => !freshPlaylists.includes(cached));
+      const { playlists: freshlyFetched, failures } = await fetchPlaylistsFromAPI(expiredPlaylists, staleCache);
+      fetchFailures = failures;
       
       if (freshlyFetched.length > 0) {
         // Add to our data
         allPlaylistData.push(...freshlyFetched);
         
-        // Update cache
-        await updatePlaylistCache(freshlyFetched);
+        // Update cache (expired entries kept as a fallback are already in it, and keep their version)
+        await updatePlaylistCache(freshlyFetched.filter((playlistData) => !staleCache.includes(playlistData)));
         console.log(`✅ Updated cache with ${freshlyFetched.length} playlists`);
       }
     } else {
       console.log(`⚡ All playlists served from cache - instant loading!`);
     }
 
-    if (allPlaylistData.length === 0) {
+    if (allPlaylistData.length === 0 && fetchFailures.length === 0 && !showContinueWatching) {
       console.warn("No playlist data available");
       return null;
     }
 
+    // Avatars are nice to have, shelves still render without them
+    await loadChannelDetails(allPlaylistData.flatMap((playlistData) => playlistData.videos));
+    watchProgressById = await getWatchProgress();
+    videoStatesById = await getVideoStates();
+    await loadReadOnlyCustomSources(selectedPlaylistIds);
+
     // Process the data (apply filters/sorting like before)
     const playlistsWithVideos: MultiPlaylistData[] = [];
 
     for (const playlistData of allPlaylistData) {
       if (playlistData.videos.length > 0) {
         // Get filter/sort settings for this playlist
-        const settingsKey = playlistData.playlistId === "LIKED_VIDEOS" ? "LL" : playlistData.playlistId;
+        const settingsKey = getSourceId(playlistData.playlistId);
         const playlistSettings = await getPlaylistSettings(settingsKey);
         
-        let processedVideos = playlistData.videos;
+        // Without settings, marked videos are still hidden (applyFilters handles this otherwise)
+        let processedVideos = playlistData.videos.filter(
+          (video) => !isHiddenState(videoStatesById[video.contentDetails.videoId])
+        );
         
         if (playlistSettings) {
           console.log(`📊 Applying custom filters/sorting to "${playlistData.title}"`);
@@ -639,6 +1924,9 @@ async function fetchMultiplePlaylistsData(): Promise<MultiPlaylistData[] | null>
             id: playlistData.playlistId,
             title: playlistData.title,
             videos: processedVideos,
+            // A random shuffle changes on every load, it's not an order worth writing back
+            hasCustomSort:
+              !!playlistSettings && !['default', 'random'].includes(playlistSettings.sort.by),
             paginationState: {
               currentPage: 0,
               videosPerPage: calculateVideosPerPage(),
@@ -667,6 +1955,32 @@ async function fetchMultiplePlaylistsData(): Promise<MultiPlaylistData[] | null>
       }
     }
 
+    if (showContinueWatching) {
+      playlistsWithVideos.push(await buildContinueWatchingShelf(allPlaylistData));
+    }
+
+    // Playlists that failed to load still get a shelf explaining why
+    for (const failure of fetchFailures) {
+      playlistsWithVideos.push({
+        id: failure.playlistId,
+        title: failure.title,
+        videos: [],
+        paginationState: {
+          currentPage: 0,
+          videosPerPage: calculateVideosPerPage(),
+          totalVideos: 0,
+          allVideos: [],
+        },
+        statusMessage: getFetchErrorMessage(failure.error),
+      });
+      console.log(`⚠️ Showing ${failure.error.name} message for "${failure.title}"`);
+    }
+
+    // Shelves follow the order the user set in the popup
+    playlistsWithVideos.sort(
+      (a, b) => selectedSourceIds.indexOf(getSourceId(a.id)) - selectedSourceIds.indexOf(getSourceId(b.id))
+    );
+
     return playlistsWithVideos.length > 0 ? playlistsWithVideos : null;
 
   } catch (error) {
@@ -675,6 +1989,55 @@ async function fetchMultiplePlaylistsData(): Promise<MultiPlaylistData[] | null>
   }
 }
 
+/**
+ * Builds the Continue Watching shelf: partly watched videos from the selected playlists, most recently watched first
+ */
+async function buildContinueWatchingShelf(allPlaylistData: CachedPlaylistData[]): Promise<MultiPlaylistData> {
+  const seenVideoIds = new Set<string>();
+  const partlyWatched: Video[] = [];
+
+  allPlaylistData.forEach((playlistData) => {
+    playlistData.videos.forEach((video) => {
+      const videoId = video.contentDetails.videoId;
+      const progress = watchProgressById[videoId];
+      if (!progress || progress.watched || seenVideoIds.has(videoId)) return;
+
+      seenVideoIds.add(videoId);
+      partlyWatched.push(video);
+    });
+  });
+
+  let videos = partlyWatched.sort(
+    (a, b) =>
+      watchProgressById[b.contentDetails.videoId].updatedAt -
+      watchProgressById[a.contentDetails.videoId].updatedAt
+  );
+
+  // Filters apply as usual, sorting only replaces the recency order if one is chosen
+  const playlistSettings = await getPlaylistSettings(CONTINUE_WATCHING_ID);
+  if (playlistSettings) {
+    videos = applySorting(applyFilters(videos, playlistSettings.filters), playlistSettings.sort);
+  } else {
+    videos = videos.filter((video) => !isHiddenState(videoStatesById[video.contentDetails.videoId]));
+  }
+  console.log(`⏯️ Continue Watching: ${videos.length} partly watched videos`);
+
+  return {
+    id: CONTINUE_WATCHING_ID,
+    title: "Continue Watching",
+    videos: videos,
+    paginationState: {
+      currentPage: 0,
+      videosPerPage: calculateVideosPerPage(),
+      totalVideos: videos.length,
+      allVideos: videos,
+    },
+    ...(partlyWatched.length === 0 && {
+      statusMessage: "Videos you start watching from your playlists will show up here",
+    }),
+  };
+}
+
 /**
  * Helper functions for DOM insertion (unchanged from original)
  */
@@ -776,24 +2139,8 @@ function detectShortsAfterFirstRow(contentContainer: HTMLElement, videosPerRow:
   
   console.log("🔍 Element after first row:", nextElement.tagName, nextElement.className);
   
-  // Check if it's a Shorts section using the old selectors
-  const shortsSelectors = [
-    "ytd-rich-section-renderer[is-shorts]",
-    "ytd-reel-shelf-renderer",
-    'ytd-rich-shelf-renderer:has([title*="Shorts"])',
-    '[aria-label*="Shorts"]'
-  ];
-  
-  for (const selector of shortsSelectors) {
-    if (nextElement.matches && nextElement.matches(selector)) {
-      console.log("🎯 SHORTS DETECTED: Found Shorts section right after first row using selector:", selector);
-      return nextElement as HTMLElement;
-    }
-  }
-  
-  // Also check text content for "Shorts"
-  if (nextElement.textContent?.toLowerCase().includes("shorts")) {
-    console.log("🎯 SHORTS DETECTED: Found Shorts section by text content");
+  if (isShortsSection(nextElement)) {
+    console.log("🎯 SHORTS DETECTED: Found Shorts section right after first row");
     return nextElement as HTMLElement;
   }
   
@@ -801,6 +2148,82 @@ function detectShortsAfterFirstRow(contentContainer: HTMLElement, videosPerRow:
   return null;
 }
 
+/**
+ * Checks if a grid element is a Shorts section, by the old selectors or its text
+ */
+function isShortsSection(element: Element): boolean {
+  if (SHORTS_SECTION_SELECTORS.some((selector) => element.matches(selector))) {
+    return true;
+  }
+  return !!element.textContent?.toLowerCase().includes("shorts");
+}
+
+/**
+ * Finds the first Shorts section anywhere in the grid
+ */
+function findShortsSection(contentContainer: HTMLElement): HTMLElement | null {
+  const sections = contentContainer.querySelectorAll<HTMLElement>(':scope > ytd-rich-section-renderer');
+  return Array.from(sections).find((section) => isShortsSection(section)) || null;
+}
+
+/**
+ * Picks where the first shelf goes in a video grid for the placement setting
+ * Falls back to the original placement (after the first row, or above Shorts right after it)
+ */
+function findGridInsertionPoint(
+  contentContainer: HTMLElement,
+  videosPerRow: number,
+  placement: ShelfPlacement
+): { insertionPoint: Element | null; insertsBeforePoint: boolean } {
+  // Only top-level items count as grid positions, Shorts sections nest their own ytd-rich-item-renderer elements
+  const gridItems = contentContainer.querySelectorAll(':scope > ytd-rich-item-renderer');
+
+  switch (placement.position) {
+    case 'top':
+      console.log("🎯 TOP: Will insert at the top of the feed");
+      return { insertionPoint: contentContainer.firstElementChild, insertsBeforePoint: true };
+    case 'bottom':
+      // YouTube keeps loading videos below as the user scrolls, so this is the end of the first batch
+      console.log("🎯 BOTTOM: Will insert after the last loaded video");
+      return { insertionPoint: gridItems[gridItems.length - 1] || null, insertsBeforePoint: false };
+    case 'belowShorts': {
+      const shortsSection = findShortsSection(contentContainer);
+      if (shortsSection) {
+        console.log("🎯 BELOW SHORTS: Will insert below the Shorts section");
+        return { insertionPoint: shortsSection, insertsBeforePoint: false };
+      }
+      console.warn("⚠️ No Shorts section found, using the default placement");
+      break;
+    }
+    case 'afterRow':
+      if (placement.row > 1 && gridItems.length > 0) {
+        const lastIndex = Math.min(placement.row * videosPerRow, gridItems.length) - 1;
+        console.log(`🎯 ROW ${placement.row}: Will insert after video ${lastIndex + 1}`);
+        return { insertionPoint: gridItems[lastIndex], insertsBeforePoint: false };
+      }
+      break;
+  }
+
+  // Check if Shorts section is right after first row
+  const shortsSection = detectShortsAfterFirstRow(contentContainer, videosPerRow);
+  if (shortsSection) {
+    // Use old Shorts injection logic - insert ABOVE the Shorts section
+    console.log("🎯 SHORTS LOGIC: Will insert above Shorts section");
+    return { insertionPoint: shortsSection, insertsBeforePoint: true };
+  }
+
+  // Use current Y-position detection logic
+  const allVideos = contentContainer.querySelectorAll('ytd-rich-item-renderer');
+  if (allVideos.length >= videosPerRow) {
+    console.log(`🎯 DYNAMIC: Will insert after video ${videosPerRow} (first row complete)`);
+    return { insertionPoint: allVideos[videosPerRow - 1], insertsBeforePoint: false };
+  }
+
+  console.warn(`⚠️ Only ${allVideos.length} videos found, less than calculated row size of ${videosPerRow}`);
+  console.warn(`⚠️ Will insert after last video`);
+  return { insertionPoint: allVideos[allVideos.length - 1] || null, insertsBeforePoint: false };
+}
+
 /**
  * Apply filters to video array
  */
@@ -859,23 +2282,82 @@ function applyFilters(videos: Video[], filters: PlaylistFilterSortSettings['filt
         }
       }
       
-      // Upload date filter
-      if (filters.uploadDate !== 'all') {
-        const uploadDate = new Date(video.snippet.publishedAt);
-        const now = new Date();
-        const daysDiff = Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        switch (filters.uploadDate) {
-          case 'week':
-            if (daysDiff > 7) return false;
-            break;
-          case 'month':
-            if (daysDiff > 30) return false;
-            break;
-          case 'year':
-            if (daysDiff > 365) return false;
-            break;
-        }
+      // Upload date filter
+      if (filters.uploadDate !== 'all') {
+        const uploadDate = new Date(video.snippet.publishedAt);
+        const now = new Date();
+        const daysDiff = Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24));
+        
+        switch (filters.uploadDate) {
+          case 'week':
+            if (daysDiff > 7) return false;
+            break;
+          case 'month':
+            if (daysDiff > 30) return false;
+            break;
+          case 'year':
+            if (daysDiff > 365) return false;
+            break;
+        }
+      }
+      
+      // Live/upcoming filter (premieres count as upcoming until they've aired)
+      const isLiveOrUpcoming = video.liveStatus === 'live' || video.liveStatus === 'upcoming';
+      if (filters.liveContent === 'hide' && isLiveOrUpcoming) {
+        return false;
+      }
+      if (filters.liveContent === 'only' && !isLiveOrUpcoming) {
+        return false;
+      }
+      
+      // Shorts filter
+      if (filters.shorts === 'exclude' && video.isShort) {
+        return false;
+      }
+      if (filters.shorts === 'only' && !video.isShort) {
+        return false;
+      }
+      
+      // Accessibility/quality filters
+      if (filters.captionedOnly && !video.hasCaptions) {
+        return false;
+      }
+      if (filters.hdOnly && video.definition !== 'hd') {
+        return false;
+      }
+      if (filters.languages && filters.languages.length > 0 && !matchesLanguage(video, filters.languages)) {
+        return false;
+      }
+      
+      // Tag and topic filters (include = at least one match, exclude = no match)
+      if (filters.includeTags?.length && !hasAnyTerm(video.tags, filters.includeTags)) {
+        return false;
+      }
+      if (filters.excludeTags?.length && hasAnyTerm(video.tags, filters.excludeTags)) {
+        return false;
+      }
+      if (filters.includeTopics?.length && !hasAnyTerm(video.topics, filters.includeTopics)) {
+        return false;
+      }
+      if (filters.excludeTopics?.length && hasAnyTerm(video.topics, filters.excludeTopics)) {
+        return false;
+      }
+      
+      // Added-to-playlist filter (videos without an added date, e.g. scraped Watch Later, are kept)
+      if (filters.addedWithin && filters.addedWithin !== 'all' && video.addedAt) {
+        const daysSinceAdded = Math.floor((Date.now() - new Date(video.addedAt).getTime()) / (1000 * 60 * 60 * 24));
+        const maxDays = { week: 7, month: 30, year: 365 }[filters.addedWithin];
+        if (daysSinceAdded > maxDays) return false;
+      }
+      
+      // Watched filter
+      if (filters.hideWatched && watchProgressById[video.contentDetails.videoId]?.watched) {
+        return false;
+      }
+      
+      // Videos marked watched, dismissed or snoozed from a tile
+      if (!filters.showHidden && isHiddenState(videoStatesById[video.contentDetails.videoId])) {
+        return false;
       }
       
       // Channel filter (if implemented later)
@@ -936,6 +2418,16 @@ function applySorting(videos: Video[], sort: PlaylistFilterSortSettings['sort'])
         bValue = new Date(b.snippet.publishedAt).getTime();
         break;
         
+      case 'added':
+        aValue = a.addedAt ? new Date(a.addedAt).getTime() : 0;
+        bValue = b.addedAt ? new Date(b.addedAt).getTime() : 0;
+        break;
+        
+      case 'position':
+        aValue = a.position ?? Number.MAX_SAFE_INTEGER;
+        bValue = b.position ?? Number.MAX_SAFE_INTEGER;
+        break;
+        
       case 'duration':
         aValue = parseDurationToSeconds(a.duration);
         bValue = parseDurationToSeconds(b.duration);
@@ -989,9 +2481,11 @@ async function getPlaylistSettings(playlistId: string): Promise<PlaylistFilterSo
  * Creates and injects multiple playlists after first row using dynamic detection - FINAL VERSION
  */
 function injectMultiplePlaylistsWithData(
-  playlistsWithVideos: MultiPlaylistData[]
+  playlistsWithVideos: MultiPlaylistData[],
+  page: Exclude<ShelfPage, "watch"> = "home",
+  placement: ShelfPlacement = DEFAULT_SHELF_PLACEMENT
 ): void {
-  console.log("🎬 Starting dynamic playlist injection after first row...");
+  console.log(`🎬 Starting dynamic playlist injection on the ${page} page...`);
   
   // Store playlists data globally
   playlistsData = playlistsWithVideos;
@@ -999,15 +2493,7 @@ function injectMultiplePlaylistsWithData(
   // Find the main content container
   let contentContainer: HTMLElement | null = null;
   
-  const containerSelectors = [
-    "ytd-rich-grid-renderer #contents",
-    "ytd-two-column-browse-results-renderer #primary #contents",
-    "ytd-browse #primary #contents",
-    "#contents.ytd-rich-grid-renderer",
-    "#primary #contents"
-  ];
-  
-  for (const selector of containerSelectors) {
+  for (const selector of SHELF_CONTAINER_SELECTORS[page]) {
     contentContainer = document.querySelector<HTMLElement>(selector);
     if (contentContainer) {
       console.log(`✅ Found container with selector: ${selector}`);
@@ -1021,7 +2507,9 @@ function injectMultiplePlaylistsWithData(
   }
 
   // Get all video elements
-  const allVideos = contentContainer.querySelectorAll('ytd-rich-item-renderer');
+  const allVideos = page === "search"
+    ? contentContainer.querySelectorAll(':scope > ytd-video-renderer')
+    : contentContainer.querySelectorAll('ytd-rich-item-renderer');
   console.log(`📹 Found ${allVideos.length} total video elements`);
   
   if (allVideos.length === 0) {
@@ -1029,30 +2517,19 @@ function injectMultiplePlaylistsWithData(
     return;
   }
 
-  // Calculate videos per row dynamically
-  const videosPerRow = calculateVideosPerRow(contentContainer);
-  
- // Check if Shorts section is right after first row
-const shortsSection = detectShortsAfterFirstRow(contentContainer, videosPerRow);
-let insertionPoint: Element | null = null;
-let usesShortsLogic = false;
-
-if (shortsSection) {
-  // Use old Shorts injection logic - insert ABOVE the Shorts section
-  insertionPoint = shortsSection;
-  usesShortsLogic = true;
-  console.log("🎯 SHORTS LOGIC: Will insert above Shorts section");
-} else {
-  // Use current Y-position detection logic
-  if (allVideos.length >= videosPerRow) {
-    insertionPoint = allVideos[videosPerRow - 1];
-    console.log(`🎯 DYNAMIC: Will insert after video ${videosPerRow} (first row complete)`);
+  let insertionPoint: Element | null = null;
+  let insertsBeforePoint = false;
+
+  if (page === "search") {
+    // Shelves go above the first search result
+    insertionPoint = allVideos[0];
+    insertsBeforePoint = true;
+    console.log("🎯 SEARCH: Will insert above the first result");
   } else {
-    insertionPoint = allVideos[allVideos.length - 1];
-    console.warn(`⚠️ Only ${allVideos.length} videos found, less than calculated row size of ${videosPerRow}`);
-    console.warn(`⚠️ Will insert after last video`);
+    // Calculate videos per row dynamically
+    const videosPerRow = calculateVideosPerRow(contentContainer);
+    ({ insertionPoint, insertsBeforePoint } = findGridInsertionPoint(contentContainer, videosPerRow, placement));
   }
-}
 
   if (!insertionPoint || insertionPoint.parentElement !== contentContainer) {
     console.error("❌ Invalid insertion point");
@@ -1064,9 +2541,9 @@ if (shortsSection) {
     console.log(`🎬 Creating playlist ${index + 1}/${playlistsWithVideos.length}: "${playlistData.title}"`);
     
     try {
-      // Create playlist wrapper styled as ytd-rich-item-renderer but full width
-      const playlistWrapper = document.createElement("ytd-rich-item-renderer");
-      playlistWrapper.className = "style-scope ytd-rich-grid-renderer";
+      // Create playlist wrapper styled as ytd-rich-item-renderer but full width (a plain block in the search column)
+      const playlistWrapper = document.createElement(page === "search" ? "div" : "ytd-rich-item-renderer");
+      playlistWrapper.className = page === "search" ? "search-playlist-shelf" : "style-scope ytd-rich-grid-renderer";
       playlistWrapper.setAttribute("data-playlist-id", playlistData.id);
       playlistWrapper.setAttribute("data-custom-playlist", "true");
       
@@ -1111,10 +2588,18 @@ if (shortsSection) {
       );
       playlistContainer.appendChild(headerWithArrows);
 
+      if (isEditableSource(playlistData.id) && !playlistData.statusMessage) {
+        addReorderControl(headerWithArrows, playlistData);
+      }
+      if (playlistData.videos.length > 0) {
+        addSaveAsPlaylistControl(headerWithArrows, playlistData);
+      }
+
       // Create video grid
       const videoGrid = document.createElement("div");
       videoGrid.className = "playlist-video-grid";
       videoGrid.setAttribute("data-playlist-id", playlistData.id);
+      videoGrid.addEventListener("click", handleVideoActionClick);
 
       playlistContainer.appendChild(videoGrid);
       playlistWrapper.appendChild(playlistContainer);
@@ -1125,16 +2610,16 @@ if (shortsSection) {
       if (index === 0) {
       // First playlist: Insert using appropriate logic
       try {
-        if (usesShortsLogic) {
-          // Insert ABOVE the Shorts section (like old code)
+        if (insertsBeforePoint) {
+          // Insert ABOVE the insertion point (the Shorts section, the top of the feed or the first search result)
           contentContainer.insertBefore(playlistWrapper, insertionPoint);
           insertionSuccess = true;
-          console.log(`✅ SHORTS: Playlist "${playlistData.title}" inserted above Shorts section`);
+          console.log(`✅ BEFORE: Playlist "${playlistData.title}" inserted above ${insertionPoint.tagName.toLowerCase()}`);
         } else {
-          // Insert after the calculated insertion point (current logic)
+          // Insert after the calculated insertion point
           contentContainer.insertBefore(playlistWrapper, insertionPoint.nextSibling);
           insertionSuccess = true;
-          console.log(`✅ DYNAMIC: Playlist "${playlistData.title}" inserted after ${videosPerRow} videos (first row)`);
+          console.log(`✅ AFTER: Playlist "${playlistData.title}" inserted after ${insertionPoint.tagName.toLowerCase()}`);
         }
       } catch (error) {
         console.error(`❌ Failed insertion for "${playlistData.title}":`, error);
@@ -1142,7 +2627,7 @@ if (shortsSection) {
       } else {
         // Subsequent playlists: Insert after previous playlist
         try {
-          const previousPlaylist = document.querySelector(`ytd-rich-item-renderer[data-playlist-id="${playlistsWithVideos[index-1].id}"]`);
+          const previousPlaylist = document.querySelector(`[data-custom-playlist="true"][data-playlist-id="${playlistsWithVideos[index-1].id}"]`);
           if (previousPlaylist && previousPlaylist.parentElement === contentContainer) {
             contentContainer.insertBefore(playlistWrapper, previousPlaylist.nextSibling);
             insertionSuccess = true;
@@ -1165,7 +2650,7 @@ if (shortsSection) {
       }
 
       // Verify the element was actually added
-      const addedElement = document.querySelector(`ytd-rich-item-renderer[data-playlist-id="${playlistData.id}"]`);
+      const addedElement = document.querySelector(`[data-custom-playlist="true"][data-playlist-id="${playlistData.id}"]`);
       if (addedElement) {
         console.log(`🎉 Playlist "${playlistData.title}" successfully added to DOM`);
       } else {
@@ -1199,27 +2684,122 @@ if (shortsSection) {
   console.log("🎉 Dynamic playlist injection completed!");
 }
 
+/**
+ * Creates a row of the watch page's "Up next" list: small thumbnail, title, channel and the shelf it came from
+ */
+function createCompactVideoItem(videoData: Video, sourceTitle: string): HTMLElement {
+  const { videoId } = videoData.contentDetails;
+  const { title, videoOwnerChannelTitle, thumbnails } = videoData.snippet;
+  const videoDuration = formatDuration(videoData.duration);
+
+  return el(
+    "a",
+    { className: "up-next-item", attrs: { href: getVideoUrl(videoData), "data-video-id": videoId } },
+    el(
+      "div",
+      { className: "up-next-thumbnail" },
+      el("img", { attrs: { src: thumbnails?.high?.url || "", alt: "" } }),
+      createLiveBadge(videoData) ||
+        (videoDuration && el("span", { className: "video-duration-overlay" }, videoDuration)),
+      createProgressBar(videoId)
+    ),
+    el(
+      "div",
+      { className: "up-next-text" },
+      el("span", { className: "up-next-video-title", attrs: { title: title } }, title),
+      el("span", { className: "up-next-meta" }, videoOwnerChannelTitle),
+      el("span", { className: "up-next-meta" }, formatVideoStats(videoData)),
+      el("span", { className: "up-next-source" }, `From ${sourceTitle}`)
+    )
+  );
+}
+
+/**
+ * Injects the compact "Up next from your playlists" list at the top of the watch page sidebar
+ * Shelves take turns so each chosen playlist shows up near the top
+ */
+function injectUpNextList(playlistsWithVideos: MultiPlaylistData[]): void {
+  const sidebar = document.querySelector<HTMLElement>("ytd-watch-flexy #secondary #secondary-inner") ||
+    document.querySelector<HTMLElement>("ytd-watch-flexy #secondary");
+  if (!sidebar) {
+    console.error("❌ Could not find the watch page sidebar");
+    return;
+  }
+
+  const currentVideoId = new URLSearchParams(window.location.search).get("v");
+  const seenVideoIds = new Set(currentVideoId ? [currentVideoId] : []);
+  const items: { video: Video; sourceTitle: string }[] = [];
+  const queues = playlistsWithVideos.map((playlistData) => [...playlistData.videos]);
+
+  while (items.length < UP_NEXT_LIMIT && queues.some((queue) => queue.length > 0)) {
+    queues.forEach((queue, index) => {
+      const video = queue.shift();
+      if (!video || items.length >= UP_NEXT_LIMIT || seenVideoIds.has(video.contentDetails.videoId)) return;
+
+      seenVideoIds.add(video.contentDetails.videoId);
+      items.push({ video, sourceTitle: playlistsWithVideos[index].title });
+    });
+  }
+
+  if (items.length === 0) {
+    console.log("No videos for the Up next list, skipping injection");
+    return;
+  }
+
+  const upNextList = el(
+    "div",
+    { className: "up-next-shelf", attrs: { "data-custom-playlist": "true", "data-playlist-id": "UP_NEXT" } },
+    el("h3", { className: "up-next-title" }, "Up next from your playlists"),
+    ...items.map(({ video, sourceTitle }) => createCompactVideoItem(video, sourceTitle))
+  );
+
+  // Above YouTube's own suggestions, below anything pinned on top of them (e.g. a playlist panel)
+  const related = sidebar.querySelector(":scope > #related");
+  sidebar.insertBefore(upNextList, related || sidebar.firstChild);
+  console.log(`🎉 Up next list added with ${items.length} videos`);
+}
+
 /**
  * Main injection function that handles API calls and smart re-injection logic
  */
-async function injectPlaylists(): Promise<void> {
+async function injectPlaylists(
+  page: ShelfPage = "home",
+  isCurrent: () => boolean = () => true
+): Promise<void> {
   // Check if any playlist elements already exist
-  if (document.querySelector('[id^="custom-playlist-container-"]')) {
+  if (hasMountedShelves()) {
     console.log("Playlists already exist, skipping injection");
     return;
   }
 
   try {
+    // Page size depends on the page, so it's set before the shelves are built
+    shelfPage = page;
+
+    // Placement is a homepage setting, other grids keep the default; read up front so
+    // nothing is awaited between the isCurrent() check and the injection
+    const placement = page === "home" ? await getShelfPlacement() : DEFAULT_SHELF_PLACEMENT;
+
     // Fetch multiple playlists data from API
-    const playlistsData = await fetchMultiplePlaylistsData();
+    const playlistsData = await fetchMultiplePlaylistsData(page);
 
     if (!playlistsData || playlistsData.length === 0) {
       console.log("No playlist data available, skipping injection");
       return;
     }
 
-    // Inject multiple playlists with real data and pagination
-    injectMultiplePlaylistsWithData(playlistsData);
+    // The user left the page while the data was loading
+    if (!isCurrent()) {
+      console.log("Page changed while loading playlists, skipping injection");
+      return;
+    }
+
+    // Inject multiple playlists with real data and pagination, or the compact list in the watch page sidebar
+    if (page === "watch") {
+      injectUpNextList(playlistsData);
+    } else {
+      injectMultiplePlaylistsWithData(playlistsData, page, placement);
+    }
   } catch (error) {
     console.error("Failed to inject playlists:", error);
   }
@@ -1317,72 +2897,18 @@ setTimeout(debugAdVideo, 1500);
 setTimeout(debugAdVideo, 3000);
 
 /**
- * Enhanced injection with persistent observer and dynamic video count
+ * Removes every injected shelf and forgets its state
  */
-async function injectPlaylistsWithObserver(): Promise<void> {
-  // Check if already exists
-  if (document.querySelector('[id^="custom-playlist-container-"]')) {
-    console.log("Playlists already exist, skipping injection");
-    return;
-  }
-
-  // Try immediate injection first
-  await injectPlaylists();
-
-  // Set up observer with navigation detection built-in
-  let lastUrl = location.href;
-  
-  const observer = new MutationObserver(async (mutations) => {
-    // Check for URL changes (navigation detection)
-    if (location.href !== lastUrl) {
-      lastUrl = location.href;
-      
-      // Clean up existing playlists on navigation
-      const existingPlaylists = document.querySelectorAll('[data-custom-playlist="true"]');
-      existingPlaylists.forEach(playlist => playlist.remove());
-      playlistsData = [];
-      
-      // Only re-inject on homepage after delay
-      if (location.href === 'https://www.youtube.com/') {
-        setTimeout(async () => {
-          if (!document.querySelector('[data-custom-playlist="true"]')) {
-            await injectPlaylists();
-          }
-        }, 2000);
-      }
-      return;
-    }
-
-    // Original content detection logic
-    if (document.querySelector('[id^="custom-playlist-container-"]')) {
-      console.log("✅ Playlists found, disconnecting observer to prevent duplicates");
-      observer.disconnect();
-      return;
-    }
-
-    // Look for new content being added
-    for (const mutation of mutations) {
-      if (mutation.type === "childList" && mutation.addedNodes.length > 0) {
-        setTimeout(async () => {
-          if (!document.querySelector('[id^="custom-playlist-container-"]')) {
-            await injectPlaylists();
-            if (document.querySelector('[id^="custom-playlist-container-"]')) {
-              console.log("✅ Injection successful, disconnecting observer");
-              observer.disconnect();
-            }
-          }
-        }, 100);
-        break;
-      }
-    }
-  });
+function unmountShelves(): void {
+  document.querySelectorAll('[data-custom-playlist="true"]').forEach((playlist) => playlist.remove());
+  playlistsData = [];
+}
 
-  // Observe the main content area persistently
-  const mainContent = document.querySelector('ytd-browse[page-subtype="home"]') || document.body;
-  observer.observe(mainContent, {
-    childList: true,
-    subtree: true,
-  });
+/**
+ * Checks if injected shelves are still in the page (YouTube can re-render the grid over them)
+ */
+function hasMountedShelves(): boolean {
+  return !!document.querySelector('[data-custom-playlist="true"]');
 }
 
 // Scoped resize handler that only affects OUR playlists
@@ -1416,24 +2942,15 @@ window.addEventListener("resize", debounce(() => {
   }
 }, 250));
 
-  // Add visibility change handler for minimize/restore
-  document.addEventListener("visibilitychange", async () => {
-    if (!document.hidden) {
-      // Re-inject if needed when tab becomes visible
-      setTimeout(async () => {
-        if (!document.querySelector('[id^="custom-playlist-container-"]')) {
-          await injectPlaylists();
-        }
-      }, 500);
-    }
-  });
-
 /**
  * Dynamically calculates videos per page based on screen width
  */
 function calculateVideosPerPage(): number {
   const screenWidth = window.innerWidth;
 
+  // The search results column is narrower than the grids
+  if (shelfPage === "search") return screenWidth >= 1015 ? 3 : 2;
+
   // YouTube's responsive breakpoints
   //if (screenWidth >= 1728) return 6; // Extra large screens
   if (screenWidth >= 1312) return 5; // Large screens
@@ -1442,6 +2959,31 @@ function calculateVideosPerPage(): number {
   return 2; // Mobile
 }
 
+/**
+ * Normalizes a selected playlist ID to its cache key
+ */
+function getCacheKey(playlistId: string): string {
+  if (playlistId === "LL") return "LIKED_VIDEOS";
+  if (playlistId === "WL") return "WATCH_LATER";
+  return playlistId;
+}
+
+/**
+ * Maps a cache key back to the playlist ID used in selectedPlaylists and the API
+ */
+function getSourceId(cacheKey: string): string {
+  if (cacheKey === "LIKED_VIDEOS") return "LL";
+  if (cacheKey === "WATCH_LATER") return "WL";
+  return cacheKey;
+}
+
+/**
+ * Whether a cache entry was written with the current Video fields
+ */
+function isCurrentCacheEntry(cachedData: CachedPlaylistData): boolean {
+  return cachedData.cacheVersion === PLAYLIST_CACHE_VERSION;
+}
+
 /**
  * Check cache for playlist data
  */
@@ -1461,14 +3003,20 @@ async function checkPlaylistCache(selectedPlaylistIds: string[]): Promise<{
 
       selectedPlaylistIds.forEach(playlistId => {
       // Normalize the playlist ID for cache lookup
-      const cacheKey = playlistId === "LL" ? "LIKED_VIDEOS" : playlistId;
+      const cacheKey = getCacheKey(playlistId);
       const cachedData = cache[cacheKey];  // Use normalized key
       
-      if (cachedData) {
+      if (cachedData && !isCurrentCacheEntry(cachedData)) {
+        // Older entries lack fields the filters rely on, and their ETags would keep them as they are;
+        // without ETags they are only a fallback for when the refetch fails
+        cachedPlaylists.push({ ...cachedData, pageETags: undefined, videoETags: undefined });
+        expiredPlaylists.push(playlistId);
+        console.log(`🗂️ Cache for "${cachedData.title}" has an older format, will refetch`);
+      } else if (cachedData) {
         cachedPlaylists.push(cachedData);
         
-        // Check if cache is still fresh
-        if (now - cachedData.lastFetched < CACHE_DURATION) {
+        // Check if cache is still fresh (Watch Later is only refreshed by visiting its page)
+        if (cacheKey === "WATCH_LATER" || now - cachedData.lastFetched < CACHE_DURATION) {
           freshPlaylists.push(cachedData);
           console.log(`⚡ Using cached data for "${cachedData.title}" (${cachedData.totalVideos} videos)`);
         } else {
@@ -1488,33 +3036,62 @@ async function checkPlaylistCache(selectedPlaylistIds: string[]): Promise<{
 
 /**
  * Fetch playlists from API (extracted from your existing logic)
+ * Expired cache entries are revalidated with their ETags first and reused when unchanged
  */
-async function fetchPlaylistsFromAPI(playlistIds: string[]): Promise<CachedPlaylistData[]> {
+async function fetchPlaylistsFromAPI(
+  playlistIds: string[],
+  staleCache: CachedPlaylistData[] = []
+): Promise<PlaylistFetchResult> {
+  const playlistsData: CachedPlaylistData[] = [];
+  const failures: PlaylistFetchFailure[] = [];
+
+  // Falls back to the expired cache entry, or records a failure when there is none
+  const keepStaleOrFail = (playlistId: string, error: YoutubeApiError, title?: string) => {
+    const staleEntry = staleCache.find((cached) => cached.playlistId === getCacheKey(playlistId));
+    if (staleEntry) {
+      console.warn(`⚠️ ${error.name}: keeping expired cache for "${staleEntry.title}"`);
+      playlistsData.push(staleEntry);
+    } else {
+      failures.push({
+        playlistId: getCacheKey(playlistId),
+        title: title || getDefaultSourceTitle(playlistId),
+        error,
+      });
+    }
+  };
+
   try {
+    // Check the daily quota budget before making any network call
+    const quotaStatus = await getQuotaStatus();
+    if (quotaStatus?.cacheOnly) {
+      console.warn(`🪫 Quota budget nearly used (${quotaStatus.used}/${quotaStatus.budget} units), cache-only mode`);
+      const budgetError = new QuotaExceededError("Daily quota budget reached", 0, "budgetExceeded");
+      playlistIds.forEach((playlistId) => keepStaleOrFail(playlistId, budgetError));
+      return { playlists: playlistsData, failures };
+    }
+
     // Get auth token from background script
     const authToken = await getAuthToken();
     if (!authToken) {
       console.log("No auth token available for API calls");
-      return [];
+      const signedOutError = new AuthError("No auth token available", 401, "notSignedIn");
+      playlistIds.forEach((playlistId) => keepStaleOrFail(playlistId, signedOutError));
+      return { playlists: playlistsData, failures };
     }
 
-    // Initialize API service
-    const apiService = new YoutubeApiService(authToken);
+    // Initialize API service (every request is reported to the background quota ledger,
+    // and the budget is re-checked before each page, chunk and channel)
+    const apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+      isQuotaBudgetExhausted: isQuotaBudgetExhausted,
+    });
 
-    // Get user's playlists info (only if we need non-LIKED_VIDEOS playlists)
-    const regularPlaylistIds = playlistIds.filter((id) => id !== "LL");
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let allPlaylists: any[] = [];
+    // Look up the selected playlists by ID (only if we need non-virtual playlists)
+    const regularPlaylistIds = playlistIds.filter((id) => !SPECIAL_SOURCE_IDS.includes(id));
+    let allPlaylists: PlaylistInfo[] = [];
     if (regularPlaylistIds.length > 0) {
-      const startTime = Date.now();
-      try {
-        allPlaylists = await apiService.getUserPlaylists(25);
-        await trackAPICall('playlists', Date.now() - startTime, true);
-      } catch (error) {
-        await trackAPICall('playlists', Date.now() - startTime, false, (error as Error).message);
-        console.log('📊 About to track API error with endpoint:', 'playlists')
-        throw error;
-      }
+      allPlaylists = await apiService.getPlaylistsByIds(regularPlaylistIds);
     }
 
     // Create minimal playlist info for the playlists we need to fetch
@@ -1529,8 +3106,30 @@ async function fetchPlaylistsFromAPI(playlistIds: string[]): Promise<CachedPlayl
             videoCount: 0,
             privacy: "private" as const,
           };
+        } else if (playlistId === "WL") {
+          // Watch Later can't be fetched, it's only synced from its own page
+          keepStaleOrFail(
+            playlistId,
+            new PlaylistNotFoundError("Watch Later has not been synced", 0, "watchLaterNotSynced")
+          );
+          return null;
+        } else if (playlistId === "SUBSCRIPTIONS") {
+          return {
+            id: "SUBSCRIPTIONS",
+            title: "Latest from Subscriptions",
+            description: "Latest uploads from your subscriptions",
+            thumbnailUrl: "",
+            videoCount: 0,
+            privacy: "private" as const,
+          };
         } else {
           const playlist = allPlaylists.find((p) => p.id === playlistId);
+          if (!playlist) {
+            keepStaleOrFail(
+              playlistId,
+              new PlaylistNotFoundError(`Playlist ${playlistId} not found`, 404, "playlistNotFound")
+            );
+          }
           return playlist || null;
         }
       })
@@ -1538,85 +3137,305 @@ async function fetchPlaylistsFromAPI(playlistIds: string[]): Promise<CachedPlayl
 
     if (selectedPlaylists.length === 0) {
       console.warn("No valid playlists found");
-      return [];
+      return { playlists: playlistsData, failures };
     }
 
-    const playlistsData: CachedPlaylistData[] = [];
-
     // Get user preference for video count
     const videoFetchCount = await getVideoFetchCount();
 
+    // Set once a fetch fails in a way that will also fail for every remaining playlist
+    let stopError: YoutubeApiError | null = null;
+
     for (const playlist of selectedPlaylists) {
+      const apiPlaylistId = getSourceId(playlist.id);
+      const staleEntry = staleCache.find((cached) => cached.playlistId === playlist.id);
+
+      if (stopError) {
+        keepStaleOrFail(apiPlaylistId, stopError, playlist.title);
+        continue;
+      }
+
+      // Re-check the budget between playlists, earlier fetches may have used it up
+      const currentQuota = await getQuotaStatus();
+      if (currentQuota?.cacheOnly) {
+        console.warn(`🪫 Quota budget nearly used, keeping cached "${playlist.title}"`);
+        stopError = new QuotaExceededError("Daily quota budget reached", 0, "budgetExceeded");
+        keepStaleOrFail(apiPlaylistId, stopError, playlist.title);
+        continue;
+      }
+
       console.log(`Fetching videos from playlist: "${playlist.title}" (fetchAll: ${videoFetchCount})`);
 
       try {
+        // Conditional refetch: a 304 on every page means the cached video list is still good,
+        // only the video details (views, live status, ...) are refreshed
+        if (staleEntry?.pageETags?.length && staleEntry.videoFetchCount === videoFetchCount) {
+          const unchanged = await apiService.isPlaylistUnchanged(apiPlaylistId, staleEntry.pageETags);
+
+          if (unchanged) {
+            const videos = await apiService.refreshVideoDetails(
+              apiPlaylistId,
+              staleEntry.videos,
+              staleEntry.videoETags || []
+            );
+            await classifyShorts(videos);
+            playlistsData.push({
+              ...staleEntry,
+              videos: videos,
+              totalVideos: videos.length,
+              lastFetched: Date.now(),
+              videoETags: apiService.getVideoETags(apiPlaylistId),
+            });
+            console.log(`🏷️ "${playlist.title}" not modified, reusing ${videos.length} cached videos`);
+            continue;
+          }
+        }
+
         let videos: Video[];
 
         if (playlist.id === "LIKED_VIDEOS") {
           console.log("🔍 Calling getLikedVideosPlaylist...");
-          const startTime = Date.now();
-          try {
-            videos = await apiService.getLikedVideosPlaylist(videoFetchCount);
-            await trackAPICall('playlistItems', Date.now() - startTime, true);
-
-            // Track videos calls (1 call per 50 videos)
-            const videoCallsCount = Math.ceil(videos.length / 50);
-            for (let i = 0; i < videoCallsCount; i++) {
-              await trackAPICall('videos', null, true);
-            }
-          } catch (error) {
-            await trackAPICall('playlistItems', Date.now() - startTime, false, (error as Error).message);
-            console.log('📊 About to track API error with endpoint:', 'playlists')
-            throw error;
-          }
+          videos = await apiService.getLikedVideosPlaylist(videoFetchCount);
+        } else if (playlist.id === "SUBSCRIPTIONS") {
+          console.log("🔍 Building subscriptions feed...");
+          const channelFilter = await getSubscriptionChannelFilter();
+          const channels = await apiService.getSubscriptions();
+          const channelIds = channels
+            .map((channel) => channel.channelId)
+            .filter((channelId) => {
+              if (channelFilter.mode === 'include') return channelFilter.channelIds.includes(channelId);
+              if (channelFilter.mode === 'exclude') return !channelFilter.channelIds.includes(channelId);
+              return true;
+            });
+          console.log(`📺 Using ${channelIds.length}/${channels.length} subscribed channels`);
+          videos = await apiService.getSubscriptionFeed(channelIds, videoFetchCount);
         } else {
           console.log("🔍 Calling getCompletePlaylistData...");
-          const startTime = Date.now();
-          try {
-            videos = await apiService.getCompletePlaylistData(playlist.id, videoFetchCount);
-            await trackAPICall('playlistItems', Date.now() - startTime, true);
-            
-            // Track videos calls (1 call per 50 videos)
-            const videoCallsCount = Math.ceil(videos.length / 50);
-            for (let i = 0; i < videoCallsCount; i++) {
-              await trackAPICall('videos', null, true);
-            }
-          } catch (error) {
-            await trackAPICall('playlistItems', Date.now() - startTime, false, (error as Error).message);
-            console.log('📊 About to track API error with endpoint:', 'playlists')
-            throw error;
-          }
+          videos = await apiService.getCompletePlaylistData(playlist.id, videoFetchCount);
         }
 
         if (videos.length > 0) {
+          await classifyShorts(videos);
           playlistsData.push({
             playlistId: playlist.id,
             videos: videos,
             lastFetched: Date.now(),
             totalVideos: videos.length,
-            title: playlist.title
+            title: playlist.title,
+            pageETags: apiService.getPlaylistETags(apiPlaylistId),
+            videoETags: apiService.getVideoETags(apiPlaylistId),
+            videoFetchCount: videoFetchCount
           });
           console.log(`✅ Successfully fetched ${videos.length} videos from "${playlist.title}"`);
         } else {
           console.warn(`No videos found in playlist: "${playlist.title}"`);
         }
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } catch (error: any) {
+      } catch (caughtError) {
+        const error = toYoutubeApiError(caughtError);
         console.error(`Failed to fetch videos for playlist "${playlist.title}":`, error);
-        
-        // Handle quota exceeded gracefully
-        if (error.message?.includes('quotaExceeded') || error.message?.includes('quota')) {
-          console.warn("⚠️ Quota exceeded, stopping further fetches");
-          break;
+
+        if (
+          error instanceof QuotaExceededError ||
+          error instanceof AuthError ||
+          error instanceof NetworkOfflineError
+        ) {
+          // Every remaining playlist would fail the same way
+          console.warn(`⚠️ ${error.name}, stopping further fetches`);
+          stopError = error;
         }
+
+        keepStaleOrFail(apiPlaylistId, error, playlist.title);
       }
     }
 
-    return playlistsData;
-  } catch (error) {
+    return { playlists: playlistsData, failures };
+  } catch (caughtError) {
+    const error = toYoutubeApiError(caughtError);
     console.error("Failed to fetch playlists from API:", error);
-    return [];
+
+    // Playlists not handled before the failure share the same error
+    playlistIds.forEach((playlistId) => {
+      const cacheKey = getCacheKey(playlistId);
+      const handled =
+        playlistsData.some((p) => p.playlistId === cacheKey) ||
+        failures.some((f) => f.playlistId === cacheKey);
+      if (!handled) {
+        keepStaleOrFail(playlistId, error);
+      }
+    });
+
+    return { playlists: playlistsData, failures };
+  }
+}
+
+/**
+ * Shelf title for a source whose real title is unknown (nothing cached, fetch failed)
+ */
+function getDefaultSourceTitle(playlistId: string): string {
+  if (playlistId === "LL") return "Liked Videos";
+  if (playlistId === "WL") return "Watch Later";
+  if (playlistId === "SUBSCRIPTIONS") return "Latest from Subscriptions";
+  return "Unavailable playlist";
+}
+
+/**
+ * Maps a fetch error to the message shown in the playlist's shelf
+ */
+function getFetchErrorMessage(error: YoutubeApiError): string {
+  if (error instanceof QuotaExceededError) {
+    return error.reason === "budgetExceeded"
+      ? "Today's quota budget is used up. This playlist will load after the daily reset."
+      : "YouTube's daily API quota is used up. This playlist will load after the daily reset.";
+  }
+  if (error instanceof AuthError) {
+    return "Your YouTube sign-in expired. Open the extension popup to sign in again.";
+  }
+  if (error instanceof PlaylistNotFoundError) {
+    return error.reason === "watchLaterNotSynced"
+      ? "Open your Watch Later page on YouTube once to sync it."
+      : "This playlist was deleted or made private.";
+  }
+  if (error instanceof RateLimitedError) {
+    return "YouTube is rate limiting requests. Try again in a few minutes.";
+  }
+  if (error instanceof NetworkOfflineError) {
+    return "You appear to be offline. This playlist will load when you reconnect.";
+  }
+  return `Couldn't load this playlist (YouTube API error ${error.status || error.reason}).`;
+}
+
+/**
+ * User-facing message for a failed playlist edit
+ */
+function getEditErrorMessage(error: YoutubeApiError): string {
+  if (error instanceof QuotaExceededError) {
+    return "YouTube's daily API quota is used up. Try again after the daily reset.";
+  }
+  if (error instanceof AuthError) {
+    return "Your YouTube sign-in expired. Open the extension popup to sign in again.";
+  }
+  if (error instanceof NetworkOfflineError) {
+    return "You appear to be offline.";
+  }
+  if (error.status === 403) {
+    return "You can only edit your own playlists.";
+  }
+  return `Couldn't update the playlist (YouTube API error ${error.status || error.reason}).`;
+}
+
+// Guards against overlapping syncs (page load and background message can both trigger one)
+let watchLaterSyncInProgress = false;
+
+/**
+ * Scrapes the Watch Later page and stores it as the WATCH_LATER cache entry
+ */
+async function syncWatchLaterFromPage(): Promise<boolean> {
+  if (!isWatchLaterPage() || watchLaterSyncInProgress) {
+    return false;
+  }
+
+  watchLaterSyncInProgress = true;
+
+  try {
+    const videoIds = await scrapeWatchLaterVideoIds();
+    if (videoIds === null) {
+      return false;
+    }
+    console.log(`📜 Watch Later: found ${videoIds.length} videos on the page`);
+
+    const quotaStatus = await getQuotaStatus();
+    if (quotaStatus?.cacheOnly) {
+      console.warn("🪫 Quota budget nearly used, skipping Watch Later sync");
+      return false;
+    }
+
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      console.log("No auth token available for Watch Later sync");
+      return false;
+    }
+
+    const apiService = new YoutubeApiService(authToken, {
+      onApiCall: trackAPICall,
+      refreshAuthToken: refreshAuthToken,
+      isQuotaBudgetExhausted: isQuotaBudgetExhausted,
+    });
+    const videos = await apiService.getVideosByIds(videoIds);
+    await classifyShorts(videos);
+
+    await updatePlaylistCache([{
+      playlistId: "WATCH_LATER",
+      videos: videos,
+      lastFetched: Date.now(),
+      totalVideos: videos.length,
+      title: "Watch Later",
+    }]);
+    console.log(`✅ Watch Later synced: ${videos.length} videos`);
+    return true;
+  } catch (error) {
+    console.error("❌ Watch Later sync failed:", toYoutubeApiError(error));
+    return false;
+  } finally {
+    watchLaterSyncInProgress = false;
+  }
+}
+
+/**
+ * Fills channelDetailsById for the channels of the given videos
+ * Uses the channel cache and fetches only missing or expired channels with batched channels.list calls
+ */
+async function loadChannelDetails(videos: Video[]): Promise<void> {
+  const channelIds = [...new Set(
+    videos
+      .map((video) => video.snippet.videoOwnerChannelId)
+      .filter((channelId): channelId is string => !!channelId)
+  )];
+  if (channelIds.length === 0) return;
+
+  const cache: Record<string, CachedChannelDetails> = await new Promise((resolve) => {
+    chrome.storage.local.get([CHANNEL_CACHE_KEY], (result) => resolve(result[CHANNEL_CACHE_KEY] || {}));
+  });
+
+  const now = Date.now();
+  const staleChannelIds = channelIds.filter(
+    (channelId) => !cache[channelId] || now - cache[channelId].lastFetched > CHANNEL_CACHE_DURATION
+  );
+
+  if (staleChannelIds.length > 0) {
+    try {
+      const quotaStatus = await getQuotaStatus();
+      const authToken = quotaStatus?.cacheOnly ? null : await getAuthToken();
+
+      if (authToken) {
+        const apiService = new YoutubeApiService(authToken, {
+          onApiCall: trackAPICall,
+          refreshAuthToken: refreshAuthToken,
+          isQuotaBudgetExhausted: isQuotaBudgetExhausted,
+        });
+        const fetchedChannels = await apiService.getChannelDetails(staleChannelIds);
+        // Channels the API left out are cached too, so they aren't requested again on every load
+        staleChannelIds.forEach((channelId) => {
+          const channel = fetchedChannels.find((fetched) => fetched.channelId === channelId);
+          cache[channelId] = { details: channel || null, lastFetched: now };
+        });
+
+        await new Promise<void>((resolve) => {
+          chrome.storage.local.set({ [CHANNEL_CACHE_KEY]: cache }, () => resolve());
+        });
+        console.log(`🧑 Fetched details for ${fetchedChannels.length} channels`);
+      }
+    } catch (error) {
+      // Expired entries are still better than no avatar
+      console.warn("⚠️ Could not refresh channel details:", toYoutubeApiError(error));
+    }
   }
+
+  channelDetailsById = new Map(
+    channelIds
+      .map((channelId) => cache[channelId]?.details)
+      .filter((details): details is ChannelDetails => !!details)
+      .map((details) => [details.channelId, details])
+  );
 }
 
 /**
@@ -1629,7 +3448,7 @@ async function updatePlaylistCache(newPlaylistData: CachedPlaylistData[]): Promi
       
       // Update cache with new data
       newPlaylistData.forEach(playlistData => {
-        cache[playlistData.playlistId] = playlistData;
+        cache[playlistData.playlistId] = { ...playlistData, cacheVersion: PLAYLIST_CACHE_VERSION };
       });
       
       chrome.storage.local.set({ [CACHE_KEY]: cache }, () => {
@@ -1640,6 +3459,57 @@ async function updatePlaylistCache(newPlaylistData: CachedPlaylistData[]): Promi
   });
 }
 
+/**
+ * Edits one cache entry in place and returns it (null if the playlist isn't cached)
+ * The entry's ETags are dropped since they no longer describe its contents
+ */
+async function updateCachedPlaylist(
+  playlistId: string,
+  update: (cachedData: CachedPlaylistData) => void
+): Promise<CachedPlaylistData | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([CACHE_KEY], (result) => {
+      const cache: PlaylistCache = result[CACHE_KEY] || {};
+      const cachedData = cache[playlistId];
+      if (!cachedData) {
+        resolve(null);
+        return;
+      }
+
+      update(cachedData);
+      delete cachedData.pageETags;
+      delete cachedData.videoETags;
+
+      chrome.storage.local.set({ [CACHE_KEY]: cache }, () => {
+        console.log(`💾 Cache entry ${playlistId} updated`);
+        resolve(cachedData);
+      });
+    });
+  });
+}
+
+/**
+ * Get the channel include/exclude list for the subscriptions feed
+ */
+async function getSubscriptionChannelFilter(): Promise<SubscriptionChannelFilter> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(['subscriptionChannelFilter'], (result) => {
+      resolve(result.subscriptionChannelFilter || { mode: 'all', channelIds: [] });
+    });
+  });
+}
+
+/**
+ * Gets the homepage shelf placement chosen in the popup
+ */
+async function getShelfPlacement(): Promise<ShelfPlacement> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(['shelfPlacement'], (result) => {
+      resolve({ ...DEFAULT_SHELF_PLACEMENT, ...result.shelfPlacement });
+    });
+  });
+}
+
 /**
  * Get user preference for fetching all videos
  */
@@ -1703,39 +3573,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     if (message.type === "PLAYLISTS_UPDATED") {
       console.log("🔄 PLAYLISTS_UPDATED received, processing...");
 
-      // Remove existing playlists first
-      const existingPlaylists = document.querySelectorAll(
-        '[data-custom-playlist="true"]'
-      );
-      console.log(
-        `🗑️ Found ${existingPlaylists.length} existing playlists to remove`
-      );
-
-      existingPlaylists.forEach((playlist, index) => {
-        const playlistId = playlist.getAttribute("data-playlist-id");
-        console.log(
-          `🗑️ Removing existing playlist ${index + 1}: ${playlistId}`
-        );
-        playlist.remove();
-      });
-
-      // Clear global state
-      playlistsData = [];
-      console.log("🧹 Cleared global playlist data");
-
-      // Wait a moment then inject new playlists
-      setTimeout(async () => {
-        try {
-          console.log("🚀 Starting playlist re-injection...");
-          await injectPlaylists();
+      remountShelves()
+        .then(() => {
           console.log("✅ Re-injection completed successfully");
           sendResponse({ success: true });
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } catch (error: any) {
+        })
+        .catch((error) => {
           console.error("❌ Failed to re-inject playlists:", error);
           sendResponse({ success: false, error: error.message });
-        }
-      }, 300);
+        });
 
       // Return true to indicate we'll respond asynchronously
       return true;
@@ -1759,6 +3605,17 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
 console.log("✅ Content script message listener registered");
 
-// Wait a bit longer for YouTube's SPA to load, then try injection
-setTimeout(injectPlaylistsWithObserver, 1000);
+// Progress is recorded on /watch pages, the tracker checks the current page itself
+startWatchProgressTracking();
+
+// Shelves follow YouTube's SPA navigation; Watch Later is synced whenever its page is opened
+startPageLifecycle({
+  hasShelvesFor: async (page) => (await getSelectedPlaylists(page)).length > 0,
+  mount: injectPlaylists,
+  unmount: unmountShelves,
+  isMounted: hasMountedShelves,
+  onPageChange: (page) => {
+    if (page === "watchLater") syncWatchLaterFromPage();
+  },
+});
 }
\ No newline at end of file
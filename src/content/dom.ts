@@ -0,0 +1,58 @@
+// Small DOM-building layer for the injected shelves
+// Strings only ever become text nodes or attribute values, so video and channel data is never parsed as HTML
+
+type DomChild = Node | string | number | null | undefined | false;
+
+interface ElementProps {
+  className?: string;
+  // null/undefined/false skip the attribute, true sets it empty (e.g. disabled)
+  attrs?: Record<string, string | number | boolean | null | undefined>;
+  style?: Partial<Record<"width" | "visibility" | "display", string>>;
+}
+
+/**
+ * Creates an element with attributes and children
+ * Falsy children (other than 0) are skipped so optional parts can be written inline
+ */
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: ElementProps = {},
+  ...children: DomChild[]
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+
+  if (props.className) {
+    element.className = props.className;
+  }
+
+  Object.entries(props.attrs || {}).forEach(([name, value]) => {
+    if (value === null || value === undefined || value === false) return;
+    element.setAttribute(name, value === true ? "" : String(value));
+  });
+
+  Object.assign(element.style, props.style);
+
+  appendChildren(element, ...children);
+  return element;
+}
+
+/**
+ * Appends children to an element, turning strings and numbers into text nodes
+ */
+function appendChildren(parent: Node, ...children: DomChild[]): void {
+  children.forEach((child) => {
+    if (child === null || child === undefined || child === false || child === "") return;
+    parent.appendChild(child instanceof Node ? child : document.createTextNode(String(child)));
+  });
+}
+
+/**
+ * Replaces everything inside an element
+ */
+function replaceChildren(parent: Element, ...children: DomChild[]): void {
+  parent.textContent = "";
+  appendChildren(parent, ...children);
+}
+
+export { el, appendChildren, replaceChildren };
+export type { DomChild };
@@ -0,0 +1,24 @@
+// Parsing of the ISO 8601 durations the Data API returns (e.g. "PT4M13S")
+
+/**
+ * Parse YouTube duration string to seconds
+ */
+function parseDurationToSeconds(duration: string): number {
+  try {
+    // Streams longer than a day come back as e.g. "P1DT2H3M4S"
+    const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return 0;
+    
+    const days = match[1] ? parseInt(match[1]) : 0;
+    const hours = match[2] ? parseInt(match[2]) : 0;
+    const minutes = match[3] ? parseInt(match[3]) : 0;
+    const seconds = match[4] ? parseInt(match[4]) : 0;
+    
+    return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+  } catch (error) {
+    console.warn("Error parsing duration:", duration, error);
+    return 0;
+  }
+}
+
+export { parseDurationToSeconds };
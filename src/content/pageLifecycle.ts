@@ -0,0 +1,190 @@
+// Page lifecycle for the content script, driven by YouTube's own SPA navigation events
+// The script is injected once per tab load; after that every page change arrives as yt-navigate-finish,
+// followed by yt-page-data-updated once the new page's data is in place
+
+import { isWatchLaterPage } from "./watchLater";
+
+type ShelfPage = "home" | "subscriptions" | "search" | "watch";
+type PageKind = ShelfPage | "watchLater" | "other";
+
+interface PageLifecycleHandlers {
+  // Whether the user picked any shelves for this page, so pages without shelves aren't waited on
+  hasShelvesFor: (page: ShelfPage) => Promise<boolean>;
+  // Fetches and injects the shelves; isCurrent() turns false if the user navigates away meanwhile
+  mount: (page: ShelfPage, isCurrent: () => boolean) => Promise<void>;
+  unmount: () => void;
+  isMounted: () => boolean;
+  onPageChange?: (page: PageKind) => void;
+}
+
+// The element a page is rendered into, and the items that show its content has arrived
+interface ShelfPageTarget {
+  label: string;
+  rootSelector: string;
+  itemSelector: string;
+}
+
+type GridWaitResult = { ready: true } | { ready: false; reason: string };
+
+// YouTube keeps earlier pages in the DOM (hidden), so every selector is scoped to its page's root
+const SHELF_PAGE_TARGETS: Record<ShelfPage, ShelfPageTarget> = {
+  home: {
+    label: "home page",
+    rootSelector: 'ytd-browse[page-subtype="home"]',
+    itemSelector: 'ytd-browse[page-subtype="home"] ytd-rich-grid-renderer #contents > ytd-rich-item-renderer',
+  },
+  subscriptions: {
+    label: "Subscriptions feed",
+    rootSelector: 'ytd-browse[page-subtype="subscriptions"]',
+    itemSelector: 'ytd-browse[page-subtype="subscriptions"] ytd-rich-grid-renderer #contents > ytd-rich-item-renderer',
+  },
+  search: {
+    label: "search results",
+    rootSelector: "ytd-search",
+    itemSelector: "ytd-search ytd-item-section-renderer #contents > ytd-video-renderer",
+  },
+  watch: {
+    label: "watch page sidebar",
+    rootSelector: "ytd-watch-flexy #secondary",
+    itemSelector: "ytd-watch-flexy #secondary #related",
+  },
+};
+const GRID_POLL_MS = 250;
+const GRID_TIMEOUT_MS = 15000;
+
+let handlers: PageLifecycleHandlers | null = null;
+let currentUrl: string | null = null;
+let navigationId = 0;
+let isMounting = false;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Works out which kind of YouTube page is showing
+ */
+function getPageKind(): PageKind {
+  const { pathname } = window.location;
+  if (pathname === "/") return "home";
+  if (pathname === "/feed/subscriptions") return "subscriptions";
+  if (pathname === "/results") return "search";
+  if (pathname === "/watch") return "watch";
+  if (isWatchLaterPage()) return "watchLater";
+  return "other";
+}
+
+function isShelfPage(page: PageKind): page is ShelfPage {
+  return page in SHELF_PAGE_TARGETS;
+}
+
+/**
+ * Explains why a page's content isn't usable, for the failure log
+ */
+function describeMissingGrid(page: ShelfPage): string {
+  const target = SHELF_PAGE_TARGETS[page];
+  if (!document.querySelector(target.rootSelector)) {
+    return `YouTube never rendered the ${target.label}`;
+  }
+  if (page === "home" && document.querySelector(`${target.rootSelector} ytd-feed-nudge-renderer`)) {
+    return "the home feed is empty (watch history may be turned off)";
+  }
+  if (page === "search" && document.querySelector("ytd-search ytd-background-promo-renderer")) {
+    return "the search returned no results";
+  }
+  return `nothing appeared in the ${target.label} within ${GRID_TIMEOUT_MS / 1000}s (YouTube's layout may have changed)`;
+}
+
+/**
+ * Waits until a page has rendered its first batch of content
+ * It counts as ready once it has items and their number stopped changing between two polls
+ */
+async function waitForGrid(page: ShelfPage, forNavigation: number): Promise<GridWaitResult> {
+  const startTime = Date.now();
+  let previousCount = 0;
+
+  while (Date.now() - startTime < GRID_TIMEOUT_MS) {
+    if (forNavigation !== navigationId) {
+      return { ready: false, reason: "navigated away before the grid was ready" };
+    }
+
+    const itemCount = document.querySelectorAll(SHELF_PAGE_TARGETS[page].itemSelector).length;
+    if (itemCount > 0 && itemCount === previousCount) {
+      return { ready: true };
+    }
+
+    previousCount = itemCount;
+    await sleep(GRID_POLL_MS);
+  }
+
+  return { ready: false, reason: describeMissingGrid(page) };
+}
+
+/**
+ * Unmounts the shelves of the previous page and mounts the ones chosen for the new page
+ * Runs once per URL; a repeat event for the same URL only remounts if YouTube re-rendered the page over the shelves
+ */
+async function handleNavigation(trigger: string, force = false): Promise<void> {
+  if (!handlers) return;
+
+  const url = window.location.href;
+  const page = getPageKind();
+
+  if (url === currentUrl && !force) {
+    if (!isShelfPage(page) || isMounting || handlers.isMounted()) return;
+    console.log(`🔁 ${trigger}: YouTube re-rendered the ${page} page, remounting shelves`);
+  } else if (url !== currentUrl) {
+    currentUrl = url;
+    console.log(`🧭 ${trigger}: now on ${page} page`);
+    handlers.onPageChange?.(page);
+  }
+
+  const navigation = ++navigationId;
+  const isCurrent = () => navigation === navigationId;
+  handlers.unmount();
+  isMounting = false;
+
+  if (!isShelfPage(page)) return;
+
+  isMounting = true;
+  try {
+    if (!(await handlers.hasShelvesFor(page))) return;
+
+    const grid = await waitForGrid(page, navigation);
+    if (!isCurrent()) return;
+
+    if (!grid.ready) {
+      console.warn(`⚠️ Shelves not shown: ${grid.reason}`);
+      return;
+    }
+
+    await handlers.mount(page, isCurrent);
+  } catch (error) {
+    console.error("❌ Failed to mount shelves:", error);
+  } finally {
+    if (isCurrent()) isMounting = false;
+  }
+}
+
+/**
+ * Starts following YouTube navigation and handles the page the script was injected into
+ */
+function startPageLifecycle(pageHandlers: PageLifecycleHandlers): void {
+  handlers = pageHandlers;
+
+  document.addEventListener("yt-navigate-finish", () => handleNavigation("yt-navigate-finish"));
+  document.addEventListener("yt-page-data-updated", () => handleNavigation("yt-page-data-updated"));
+
+  // The initial navigation usually finished before the background injected the script
+  handleNavigation("initial load");
+}
+
+/**
+ * Unmounts and remounts the shelves on the current page (e.g. after the selection changed)
+ */
+function remountShelves(): Promise<void> {
+  return handleNavigation("refresh", true);
+}
+
+export { remountShelves, startPageLifecycle };
+export type { PageKind, PageLifecycleHandlers, ShelfPage };
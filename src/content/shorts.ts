@@ -0,0 +1,103 @@
+// Shorts detection for fetched videos
+// The Data API doesn't say whether a video is a Short, so short videos are checked against youtube.com/shorts/<id>
+// A video's answer never changes, so it's kept per video ID and each video is checked at most once
+
+import type { Video } from "../api/YoutubeApiService";
+import { parseDurationToSeconds } from "./duration";
+
+interface ShortsCheck {
+  isShort: boolean;
+  checkedAt: number;
+}
+
+type ShortsCheckMap = Record<string, ShortsCheck>;
+
+const SHORTS_CHECKS_KEY = "shortsChecks";
+// Shorts can be up to 3 minutes long; only videos this short get the /shorts/ URL check
+const SHORTS_MAX_DURATION_SECONDS = 180;
+const SHORTS_CHECK_CONCURRENCY = 10;
+const MAX_CACHED_CHECKS = 5000;
+
+async function getShortsChecks(): Promise<ShortsCheckMap> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([SHORTS_CHECKS_KEY], (result) => {
+      resolve(result[SHORTS_CHECKS_KEY] || {});
+    });
+  });
+}
+
+/**
+ * Saves the checks, dropping the oldest ones past MAX_CACHED_CHECKS
+ */
+async function saveShortsChecks(checks: ShortsCheckMap): Promise<void> {
+  const videoIds = Object.keys(checks);
+  if (videoIds.length > MAX_CACHED_CHECKS) {
+    videoIds
+      .sort((a, b) => checks[a].checkedAt - checks[b].checkedAt)
+      .slice(0, videoIds.length - MAX_CACHED_CHECKS)
+      .forEach((oldVideoId) => delete checks[oldVideoId]);
+  }
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [SHORTS_CHECKS_KEY]: checks }, () => resolve());
+  });
+}
+
+/**
+ * YouTube serves /shorts/<id> directly for Shorts and redirects regular videos to /watch,
+ * so a redirect (an opaque response with redirect: "manual") means it's not a Short.
+ * Resolves null when the page couldn't be checked
+ */
+async function isShortsUrl(videoId: string): Promise<boolean | null> {
+  try {
+    const response = await fetch(`https://www.youtube.com/shorts/${videoId}`, {
+      method: "HEAD",
+      redirect: "manual",
+      credentials: "omit",
+    });
+    return response.type !== "opaqueredirect" && response.ok;
+  } catch (error) {
+    console.warn(`Shorts check failed for ${videoId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Sets isShort on each video: anything longer than a Short's max length (or live) is a regular video,
+ * shorter ones use the saved check or are checked now
+ */
+async function classifyShorts(videos: Video[]): Promise<void> {
+  const checks = await getShortsChecks();
+
+  const candidates = videos.filter((video) => {
+    const seconds = parseDurationToSeconds(video.duration);
+    const isCandidate = video.liveStatus !== "live" && video.liveStatus !== "upcoming" &&
+      seconds > 0 && seconds <= SHORTS_MAX_DURATION_SECONDS;
+    video.isShort = isCandidate && !!checks[video.contentDetails.videoId]?.isShort;
+    return isCandidate && !checks[video.contentDetails.videoId];
+  });
+  if (candidates.length === 0) return;
+
+  for (let i = 0; i < candidates.length; i += SHORTS_CHECK_CONCURRENCY) {
+    await Promise.all(
+      candidates.slice(i, i + SHORTS_CHECK_CONCURRENCY).map(async (video) => {
+        const videoId = video.contentDetails.videoId;
+        const isShort = await isShortsUrl(videoId);
+
+        if (isShort === null) {
+          // Can't tell without the page, fall back to YouTube's original one minute limit and check again next time
+          video.isShort = parseDurationToSeconds(video.duration) <= 60;
+          return;
+        }
+
+        video.isShort = isShort;
+        checks[videoId] = { isShort, checkedAt: Date.now() };
+      })
+    );
+  }
+
+  await saveShortsChecks(checks);
+  console.log(`🩳 Checked ${candidates.length} videos for Shorts`);
+}
+
+export { classifyShorts };
@@ -0,0 +1,56 @@
+// Per-video states set from shelf tiles (watched, dismissed, snoozed)
+// Kept locally so a video can leave the shelves without being removed from its YouTube playlist
+
+interface VideoState {
+  watched?: boolean;
+  dismissed?: boolean;
+  snoozedUntil?: number; // timestamp, the video comes back on its own after this
+  updatedAt: number;
+}
+
+type VideoStateMap = Record<string, VideoState>;
+
+const VIDEO_STATES_KEY = "videoStates";
+
+/**
+ * Reads the saved state of every marked video
+ */
+async function getVideoStates(): Promise<VideoStateMap> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([VIDEO_STATES_KEY], (result) => {
+      resolve(result[VIDEO_STATES_KEY] || {});
+    });
+  });
+}
+
+/**
+ * Checks if a state keeps its video off the shelves right now
+ */
+function isHiddenState(state: VideoState | undefined, now = Date.now()): boolean {
+  if (!state) return false;
+  return !!state.watched || !!state.dismissed || (state.snoozedUntil ?? 0) > now;
+}
+
+/**
+ * Merges changes into one video's state and returns the saved map
+ * States that no longer mark anything (e.g. an expired snooze) are dropped
+ */
+async function updateVideoState(
+  videoId: string,
+  changes: Partial<Omit<VideoState, "updatedAt">>
+): Promise<VideoStateMap> {
+  const states = await getVideoStates();
+  states[videoId] = { ...states[videoId], ...changes, updatedAt: Date.now() };
+
+  const now = Date.now();
+  Object.keys(states).forEach((id) => {
+    if (!isHiddenState(states[id], now)) delete states[id];
+  });
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [VIDEO_STATES_KEY]: states }, () => resolve(states));
+  });
+}
+
+export { getVideoStates, isHiddenState, updateVideoState };
+export type { VideoState, VideoStateMap };
@@ -0,0 +1,103 @@
+// Watch Later scraping for youtube.com/playlist?list=WL
+// The Data API can't read the WL playlist, so video IDs are taken from the rendered page
+
+const WATCH_LATER_ITEM_SELECTOR = "ytd-playlist-video-renderer";
+const CONTINUATION_SELECTOR = "ytd-playlist-video-list-renderer ytd-continuation-item-renderer";
+const SCROLL_WAIT_MS = 1500;
+const MAX_SCROLL_ROUNDS = 60; // YouTube loads 100 items per round, so this covers 5000+ videos
+const FIRST_ITEM_TIMEOUT_MS = 10000;
+
+/**
+ * Checks if the current page is the Watch Later playlist
+ */
+function isWatchLaterPage(): boolean {
+  return (
+    window.location.pathname === "/playlist" &&
+    new URLSearchParams(window.location.search).get("list") === "WL"
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Waits for the first playlist entry to render (the page loads the list lazily)
+ */
+async function waitForWatchLaterItems(): Promise<boolean> {
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < FIRST_ITEM_TIMEOUT_MS) {
+    if (document.querySelector(WATCH_LATER_ITEM_SELECTOR)) {
+      return true;
+    }
+    await sleep(250);
+  }
+
+  return false;
+}
+
+/**
+ * Scrolls to the bottom until YouTube stops loading more entries
+ */
+async function loadAllWatchLaterItems(): Promise<void> {
+  const startScrollY = window.scrollY;
+  let previousCount = -1;
+
+  for (let round = 0; round < MAX_SCROLL_ROUNDS; round++) {
+    const currentCount = document.querySelectorAll(WATCH_LATER_ITEM_SELECTOR).length;
+    const hasContinuation = !!document.querySelector(CONTINUATION_SELECTOR);
+
+    if (currentCount === previousCount && !hasContinuation) {
+      break;
+    }
+
+    console.log(`📜 Watch Later: ${currentCount} entries loaded, scrolling for more...`);
+    previousCount = currentCount;
+
+    window.scrollTo(0, document.documentElement.scrollHeight);
+    await sleep(SCROLL_WAIT_MS);
+  }
+
+  // Put the user back where they were
+  window.scrollTo(0, startScrollY);
+}
+
+/**
+ * Extracts video IDs from the rendered entries, in playlist order
+ */
+function extractWatchLaterVideoIds(): string[] {
+  const videoIds: string[] = [];
+
+  document.querySelectorAll(WATCH_LATER_ITEM_SELECTOR).forEach((item) => {
+    const link = item.querySelector<HTMLAnchorElement>("a#video-title, a#thumbnail");
+    if (!link?.href) return;
+
+    const videoId = new URL(link.href, window.location.origin).searchParams.get("v");
+    if (videoId && !videoIds.includes(videoId)) {
+      videoIds.push(videoId);
+    }
+  });
+
+  return videoIds;
+}
+
+/**
+ * Loads every entry on the Watch Later page and returns their video IDs
+ * Returns null when the page never rendered a list (e.g. signed out)
+ */
+async function scrapeWatchLaterVideoIds(): Promise<string[] | null> {
+  if (!(await waitForWatchLaterItems())) {
+    // An empty Watch Later still renders the list container
+    if (document.querySelector("ytd-playlist-video-list-renderer")) {
+      return [];
+    }
+    console.warn("⚠️ Watch Later: no playlist entries rendered");
+    return null;
+  }
+
+  await loadAllWatchLaterItems();
+  return extractWatchLaterVideoIds();
+}
+
+export { isWatchLaterPage, scrapeWatchLaterVideoIds };
@@ -0,0 +1,129 @@
+// Local watch progress, recorded on /watch pages from the player's <video> element
+// YouTube's own progress isn't available through the Data API, so shelves use this instead
+
+interface VideoProgress {
+  position: number; // seconds
+  duration: number; // seconds
+  watched: boolean;
+  updatedAt: number;
+}
+
+type WatchProgressMap = Record<string, VideoProgress>;
+
+const WATCH_PROGRESS_KEY = "watchProgress";
+const SAMPLE_INTERVAL_MS = 5000;
+const MIN_SAVE_DELTA_SECONDS = 5; // don't rewrite storage for tiny changes
+const MIN_TRACKED_POSITION_SECONDS = 10; // opening a video briefly doesn't count as starting it
+const WATCHED_RATIO = 0.9; // same idea as YouTube: the end screen/credits don't need to be watched
+const MAX_TRACKED_VIDEOS = 2000;
+const PLAYER_VIDEO_SELECTOR = "#movie_player video.html5-main-video";
+
+let lastSaved: { videoId: string; position: number } | null = null;
+
+// The URL changes before the player switches videos, so after an SPA navigation the <video> element
+// still plays the previous video for a moment; samples wait until the player has loaded the new one
+let playingVideoId: string | null = null; // video the <video> element is known to be playing
+let navigationPending = false; // between yt-navigate-start and yt-navigate-finish
+let sourcePending = false; // navigated, but the <video> element hasn't loaded a new source since
+
+/**
+ * Reads the saved progress for every tracked video
+ */
+async function getWatchProgress(): Promise<WatchProgressMap> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([WATCH_PROGRESS_KEY], (result) => {
+      resolve(result[WATCH_PROGRESS_KEY] || {});
+    });
+  });
+}
+
+/**
+ * Saves one video's progress, dropping the oldest entries past MAX_TRACKED_VIDEOS
+ */
+async function saveVideoProgress(videoId: string, position: number, duration: number): Promise<void> {
+  const progress = await getWatchProgress();
+  const previous = progress[videoId];
+
+  progress[videoId] = {
+    position: position,
+    duration: duration,
+    // once finished, rewatching the start doesn't make it unwatched again
+    watched: previous?.watched || position / duration >= WATCHED_RATIO,
+    updatedAt: Date.now(),
+  };
+
+  const videoIds = Object.keys(progress);
+  if (videoIds.length > MAX_TRACKED_VIDEOS) {
+    videoIds
+      .sort((a, b) => progress[a].updatedAt - progress[b].updatedAt)
+      .slice(0, videoIds.length - MAX_TRACKED_VIDEOS)
+      .forEach((oldVideoId) => delete progress[oldVideoId]);
+  }
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [WATCH_PROGRESS_KEY]: progress }, () => resolve());
+  });
+}
+
+/**
+ * Reads the main player's position, skipping ads, live streams and videos that haven't really started
+ */
+function sampleWatchProgress(): void {
+  if (window.location.pathname !== "/watch" || !chrome.runtime?.id) return;
+
+  const videoId = new URLSearchParams(window.location.search).get("v");
+  const player = document.querySelector("#movie_player");
+  const video = document.querySelector<HTMLVideoElement>(PLAYER_VIDEO_SELECTOR);
+  if (!videoId || !player || !video) return;
+
+  // Staying on the same video (e.g. a timestamp link) doesn't load a new source, so only a new ID waits
+  if (navigationPending || (sourcePending && videoId !== playingVideoId)) return;
+  playingVideoId = videoId;
+
+  // During ads the <video> element plays the ad, not the video in the URL
+  if (player.classList.contains("ad-showing")) return;
+
+  const { currentTime, duration } = video;
+  if (!isFinite(duration) || duration <= 0 || currentTime < MIN_TRACKED_POSITION_SECONDS) return;
+
+  if (
+    lastSaved?.videoId === videoId &&
+    Math.abs(lastSaved.position - currentTime) < MIN_SAVE_DELTA_SECONDS
+  ) {
+    return;
+  }
+
+  lastSaved = { videoId, position: currentTime };
+  saveVideoProgress(videoId, Math.floor(currentTime), Math.floor(duration)).catch((error) => {
+    console.warn("⚠️ Could not save watch progress:", error);
+  });
+}
+
+/**
+ * Starts sampling the player; safe to call on any page since SPA navigation can lead to /watch later
+ */
+function startWatchProgressTracking(): void {
+  document.addEventListener("yt-navigate-start", () => {
+    navigationPending = true;
+    sourcePending = true;
+  });
+  document.addEventListener("yt-navigate-finish", () => {
+    navigationPending = false;
+  });
+  // Media events don't bubble, so listen in the capture phase
+  document.addEventListener(
+    "loadedmetadata",
+    (event) => {
+      if (event.target instanceof Element && event.target.matches(PLAYER_VIDEO_SELECTOR)) {
+        sourcePending = false;
+      }
+    },
+    true
+  );
+
+  setInterval(sampleWatchProgress, SAMPLE_INTERVAL_MS);
+  console.log("⏱️ Watch progress tracking started");
+}
+
+export { getWatchProgress, startWatchProgressTracking };
+export type { VideoProgress, WatchProgressMap };
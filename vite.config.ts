@@ -3,26 +3,45 @@ import react from "@vitejs/plugin-react";
 import { resolve } from "path";
 
 // Vite configuration
-export default defineConfig({
-  plugins: [react()], // The custom plugin is removed
-  build: {
-    outDir: "dist",
-    emptyOutDir: true,
-    rollupOptions: {
-      input: {
-        popup: resolve(__dirname, "popup.html"),
-        background: resolve(__dirname, "src/background/background.ts"),
-        content: resolve(__dirname, "src/content/content.ts"),
+// content.js is injected as a classic script (chrome.scripting.executeScript), so it can't import
+// chunks shared with the popup; `vite build --mode content` builds it on its own as a single IIFE
+export default defineConfig(({ mode }) => {
+  if (mode === "content") {
+    return {
+      publicDir: false,
+      build: {
+        outDir: "dist",
+        emptyOutDir: false, // Runs after the main build, keep its output
+        rollupOptions: {
+          input: resolve(__dirname, "src/content/content.ts"),
+          output: {
+            format: "iife",
+            entryFileNames: "content.js",
+          },
+        },
       },
-      output: {
-        entryFileNames: "[name].js",
+    };
+  }
+
+  return {
+    plugins: [react()], // The custom plugin is removed
+    build: {
+      outDir: "dist",
+      emptyOutDir: true,
+      rollupOptions: {
+        input: {
+          popup: resolve(__dirname, "popup.html"),
+          background: resolve(__dirname, "src/background/background.ts"),
+        },
+        output: {
+          entryFileNames: "[name].js",
+        },
       },
     },
-  },
+  };
 });
 
 
-
 // import { defineConfig, type PluginOption, loadEnv } from "vite";
 // import react from "@vitejs/plugin-react";
 // import { resolve } from "path";